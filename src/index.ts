@@ -1,25 +1,68 @@
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { MaybeFinanceAPI } from "./services/api-client.js";
-import { registerTools } from "./tools/index.js";
-
-const server = new Server(
-  {
-    name: "maybe-finance-mcp",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+import { MaybeFinanceAPI, CacheOptions } from "./services/api-client.js";
+import { configureMirror } from "./services/transaction-mirror.js";
+import { configureRuleStore } from "./services/rule-store.js";
+import { configureCategoryAliases } from "./services/category-resolver.js";
+import { configureJournal } from "./services/operation-journal.js";
+import { configureCsvProfiles } from "./services/csv-profiles.js";
+import { configureImportIndex } from "./services/import-index.js";
+import { configureImportPresets } from "./services/import-presets.js";
+import { createServer } from "./server.js";
+import { startHttpServer, UnauthorizedError } from "./transports/http.js";
+
+// Read a `--name value` or `--name=value` command line flag
+function getFlag(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) return args[i + 1];
+    if (args[i].startsWith(`--${name}=`)) return args[i].slice(name.length + 3);
   }
-);
+  return undefined;
+}
 
 // Initialize API client
 const apiBaseUrl = process.env.API_BASE_URL || "";
 const apiKey = process.env.API_KEY || "";
 
-if (!apiKey) {
+// Responses are cached in memory; CACHE_DIR also keeps them on disk across restarts
+const cacheOptions: CacheOptions = {
+  cacheDir: process.env.CACHE_DIR || undefined,
+  cacheMaxEntries: process.env.CACHE_MAX_ENTRIES ? parseInt(process.env.CACHE_MAX_ENTRIES, 10) : undefined,
+};
+
+// Analytics read from a local transaction mirror; MIRROR_DIR keeps it on disk
+configureMirror({
+  directory: process.env.MIRROR_DIR || undefined,
+  maxAgeMinutes: process.env.MIRROR_MAX_AGE_MINUTES ? parseInt(process.env.MIRROR_MAX_AGE_MINUTES, 10) : undefined,
+});
+
+// Categorization rules file (.json or .yaml); defaults to ~/.maybe-finance-mcp/categorization-rules.json
+configureRuleStore(process.env.CATEGORIZATION_RULES_PATH || undefined);
+
+// Optional JSON map from rule/engine category names to the family's Maybe category names
+configureCategoryAliases(process.env.CATEGORY_ALIASES_PATH || undefined);
+
+// Append-only log of bulk writes used by undo_operation; defaults to ~/.maybe-finance-mcp/operations.jsonl
+configureJournal(process.env.OPERATION_JOURNAL_PATH || undefined);
+
+// Bank CSV profiles added to the built-in ones; defaults to ~/.maybe-finance-mcp/csv-profiles.json
+configureCsvProfiles(process.env.CSV_PROFILES_PATH || undefined);
+
+// Fingerprints of imported rows that make re-imports skip them; defaults to ~/.maybe-finance-mcp/import-index.jsonl
+configureImportIndex(process.env.IMPORT_INDEX_PATH || undefined);
+
+// Saved CSV import settings per account; defaults to ~/.maybe-finance-mcp/import-presets.json
+configureImportPresets(process.env.IMPORT_PRESETS_PATH || undefined);
+
+const transportMode = (getFlag("transport") || process.env.MCP_TRANSPORT || "stdio").toLowerCase();
+
+if (transportMode !== "stdio" && transportMode !== "http") {
+  console.error(`Error: Unknown transport '${transportMode}' (expected 'stdio' or 'http')`);
+  process.exit(1);
+}
+
+// In HTTP mode each client may send its own key, so API_KEY is only a fallback
+if (!apiKey && transportMode === "stdio") {
   console.error("Error: API_KEY environment variable is required");
   process.exit(1);
 }
@@ -29,19 +72,31 @@ if (!apiBaseUrl) {
   process.exit(1);
 }
 
-const apiClient = new MaybeFinanceAPI(apiBaseUrl, apiKey);
-
-registerTools(server, apiClient);
-
-server.onerror = (error) => {
-  console.error("[MCP Error]", error);
-};
-
 process.on('SIGINT', async () => {
   process.exit(0);
 });
 
 async function main() {
+  if (transportMode === "http") {
+    const port = parseInt(getFlag("port") || process.env.MCP_HTTP_PORT || "3000", 10);
+    const host = getFlag("host") || process.env.MCP_HTTP_HOST || "127.0.0.1";
+
+    await startHttpServer({
+      port,
+      host,
+      createApiClient: (req) => {
+        const sessionKey = (req.headers["x-api-key"] as string | undefined) || apiKey;
+        if (!sessionKey) {
+          throw new UnauthorizedError("No API key: send an X-Api-Key header or set API_KEY");
+        }
+        return new MaybeFinanceAPI(apiBaseUrl, sessionKey, cacheOptions);
+      },
+    });
+    console.error(`Maybe Finance MCP Server listening on http://${host}:${port} (streamable HTTP: /mcp, SSE: /sse)`);
+    return;
+  }
+
+  const server = createServer(new MaybeFinanceAPI(apiBaseUrl, apiKey, cacheOptions));
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Maybe Finance MCP Server started");
@@ -50,4 +105,4 @@ async function main() {
 main().catch((error) => {
   console.error("Failed to start server:", error);
   process.exit(1);
-});
\ No newline at end of file
+});
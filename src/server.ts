@@ -0,0 +1,29 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { MaybeFinanceAPI } from "./services/api-client.js";
+import { registerTools } from "./tools/index.js";
+
+/**
+ * Create an MCP server with all tools wired to the given API client.
+ * Each transport session gets its own server instance.
+ */
+export function createServer(apiClient: MaybeFinanceAPI): Server {
+  const server = new Server(
+    {
+      name: "maybe-finance-mcp",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    }
+  );
+
+  registerTools(server, apiClient);
+
+  server.onerror = (error) => {
+    console.error("[MCP Error]", error);
+  };
+
+  return server;
+}
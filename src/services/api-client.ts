@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { EnhancedMaybeFinanceAPI } from './enhanced-api-client.js';
+import { EnhancedMaybeFinanceAPI, RateLimitState } from './enhanced-api-client.js';
 
 // API Response schemas
 export const AccountSchema = z.object({
@@ -33,30 +33,160 @@ export const TransactionSchema = z.object({
 });
 
 export const CategorySchema = z.object({
-  id: z.string().uuid(),
-  familyId: z.string().uuid(),
+  id: z.string(),
   name: z.string(),
-  color: z.string().nullable(),
+  classification: z.string().optional(),
+  color: z.string().nullable().optional(),
+  icon: z.string().nullable().optional(),
+  parent: z.object({
+    id: z.string(),
+    name: z.string(),
+  }).nullable().optional(),
+  familyId: z.string().optional(),
   isSystem: z.boolean().default(false),
-  createdAt: z.string().datetime(),
-  updatedAt: z.string().datetime(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export const PaginationInfoSchema = z.object({
+  page: z.number(),
+  per_page: z.number(),
+  total_count: z.number(),
+  total_pages: z.number(),
+});
+
+export const ChatSummarySchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  last_message_at: z.string().nullable().optional(),
+  message_count: z.number().optional(),
+  error: z.string().nullable().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const ChatToolCallSchema = z.object({
+  id: z.string(),
+  function_name: z.string(),
+  function_arguments: z.unknown().optional(),
+  function_result: z.unknown().optional(),
+  created_at: z.string().optional(),
+});
+
+export const ChatMessageSchema = z.object({
+  id: z.string(),
+  chat_id: z.string().optional(),
+  type: z.string(),
+  role: z.string(),
+  content: z.string().nullable(),
+  model: z.string().nullable().optional(),
+  tool_calls: z.array(ChatToolCallSchema).optional().default([]),
+  ai_response_status: z.string().optional(),
+  ai_response_message: z.string().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const ChatSchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  error: z.string().nullable().optional(),
+  messages: z.array(ChatMessageSchema).default([]),
+  pagination: PaginationInfoSchema.optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const ApiUsageSchema = z.object({
+  api_key: z.object({
+    name: z.string().optional(),
+    scopes: z.array(z.string()).optional(),
+    last_used_at: z.string().nullable().optional(),
+    created_at: z.string().optional(),
+  }).optional(),
+  rate_limit: z.object({
+    tier: z.string().optional(),
+    limit: z.number().nullable().optional(),
+    current_count: z.number().optional(),
+    remaining: z.number().nullable().optional(),
+    reset_in_seconds: z.number().optional(),
+    reset_at: z.string().optional(),
+  }).optional(),
+  // OAuth tokens have no key-based usage, the server explains why instead
+  authentication_method: z.string().optional(),
+  message: z.string().optional(),
 });
 
 export type Account = z.infer<typeof AccountSchema>;
 export type Transaction = z.infer<typeof TransactionSchema>;
 export type Category = z.infer<typeof CategorySchema>;
+export type PaginationInfo = z.infer<typeof PaginationInfoSchema>;
+export type ChatSummary = z.infer<typeof ChatSummarySchema>;
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type Chat = z.infer<typeof ChatSchema>;
+export type ApiUsage = z.infer<typeof ApiUsageSchema>;
+
+export interface TransactionFilters {
+  accountId?: string;
+  startDate?: string;
+  endDate?: string;
+  category?: string;
+  updatedSince?: string;
+}
+
+export interface PaginateOptions {
+  pageSize?: number;
+  concurrency?: number;
+  // Bypass the response cache, e.g. when syncing the local mirror
+  skipCache?: boolean;
+}
+
+// The Maybe API caps page size at 100
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_PAGE_CONCURRENCY = 4;
+
+// A transaction written through this client, for local copies to apply
+export type TransactionWrite =
+  | { type: 'upsert'; transaction: Transaction }
+  | { type: 'delete'; transactionId: string };
+
+type TransactionWriteListener = (clientId: string, write: TransactionWrite) => void | Promise<void>;
+
+const transactionWriteListeners = new Set<TransactionWriteListener>();
+
+/**
+ * Get told about every transaction created, updated or deleted through any
+ * client. Returns a function that removes the listener.
+ */
+export function onTransactionWrite(listener: TransactionWriteListener): () => void {
+  transactionWriteListeners.add(listener);
+  return () => { transactionWriteListeners.delete(listener); };
+}
+
+export interface CacheOptions {
+  // Directory for the persistent response cache; memory only when unset
+  cacheDir?: string;
+  cacheMaxEntries?: number;
+}
 
 export class MaybeFinanceAPI {
   private client: EnhancedMaybeFinanceAPI;
 
-  constructor(baseURL: string, apiKey: string) {
+  constructor(baseURL: string, apiKey: string, cacheOptions: CacheOptions = {}) {
     this.client = new EnhancedMaybeFinanceAPI(baseURL, apiKey, {
       rateLimitPerMinute: 100,
       cacheTTLSeconds: 300,
+      cacheMaxEntries: cacheOptions.cacheMaxEntries,
+      cacheDir: cacheOptions.cacheDir,
       timeout: 30000,
     });
   }
 
+  // Stable id for this server and key, used to keep local data apart
+  getClientId(): string {
+    return this.client.clientId;
+  }
+
   // Account endpoints
   async getAccounts(): Promise<Account[]> {
     const data = await this.client.get<any>('/accounts');
@@ -70,21 +200,82 @@ export class MaybeFinanceAPI {
   }
 
   // Transaction endpoints
-  async getTransactions(params?: {
-    accountId?: string;
-    startDate?: string;
-    endDate?: string;
-    category?: string;
+  async getTransactions(params?: TransactionFilters & {
     limit?: number;
     offset?: number;
-  }): Promise<{ transactions: Transaction[]; total: number }> {
-    const data = await this.client.get<any>('/transactions', { params });
+    page?: number;
+    perPage?: number;
+  }, options: { skipCache?: boolean } = {}): Promise<{ transactions: Transaction[]; total: number }> {
+    const { perPage, updatedSince, ...query } = params || {};
+    const data = await this.client.get<any>('/transactions', {
+      params: { ...query, per_page: perPage, updated_since: updatedSince },
+    }, options);
     return {
       transactions: z.array(TransactionSchema).parse(data.transactions || data),
-      total: data.total || data.length || 0,
+      total: data.pagination?.total_count || data.total || data.length || 0,
     };
   }
 
+  /**
+   * Walk every page of transactions matching the filters. Pages after the first
+   * are fetched `concurrency` at a time once the total is known, and yielded in order.
+   */
+  async *iterateTransactions(
+    filters: TransactionFilters = {},
+    options: PaginateOptions = {}
+  ): AsyncGenerator<Transaction[]> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_PAGE_CONCURRENCY);
+
+    // Send both offset and page style parameters, whichever the server understands
+    const fetchPage = (index: number) => this.getTransactions({
+      ...filters,
+      limit: pageSize,
+      offset: index * pageSize,
+      page: index + 1,
+      perPage: pageSize,
+    }, { skipCache: options.skipCache });
+
+    const first = await fetchPage(0);
+    yield first.transactions;
+    if (first.transactions.length < pageSize) return;
+
+    const seen = new Set(first.transactions.map(tx => tx.id));
+    // Without a total from the server we can only go one page at a time
+    const totalPages = first.total > first.transactions.length
+      ? Math.ceil(first.total / pageSize)
+      : null;
+
+    let nextPage = 1;
+    while (totalPages === null || nextPage < totalPages) {
+      const batchEnd = totalPages === null ? nextPage + 1 : Math.min(nextPage + concurrency, totalPages);
+      const indexes = Array.from({ length: batchEnd - nextPage }, (_, i) => nextPage + i);
+      const pages = await Promise.all(indexes.map(fetchPage));
+      nextPage = batchEnd;
+
+      for (const page of pages) {
+        const fresh = page.transactions.filter(tx => !seen.has(tx.id));
+        // Server ignored the paging parameters and sent rows we already have
+        if (fresh.length === 0) return;
+
+        fresh.forEach(tx => seen.add(tx.id));
+        yield fresh;
+        if (page.transactions.length < pageSize) return;
+      }
+    }
+  }
+
+  async getAllTransactions(
+    filters: TransactionFilters = {},
+    options: PaginateOptions = {}
+  ): Promise<Transaction[]> {
+    const all: Transaction[] = [];
+    for await (const page of this.iterateTransactions(filters, options)) {
+      all.push(...page);
+    }
+    return all;
+  }
+
   async searchTransactions(query: string, filters?: {
     accountId?: string;
     category?: string;
@@ -100,8 +291,8 @@ export class MaybeFinanceAPI {
     };
   }
 
-  async getTransaction(id: string): Promise<Transaction> {
-    const data = await this.client.get<any>(`/transactions/${id}`);
+  async getTransaction(id: string, options: { skipCache?: boolean } = {}): Promise<Transaction> {
+    const data = await this.client.get<any>(`/transactions/${id}`, undefined, options);
     return TransactionSchema.parse(data);
   }
 
@@ -111,24 +302,30 @@ export class MaybeFinanceAPI {
     amount: string;
     name: string;
     category?: string;
+    categoryId?: string;
     merchant?: string;
     notes?: string;
     tags?: string[];
   }): Promise<Transaction> {
     // Convert accountId to account_id for the API
-    const { accountId, ...transactionData } = data;
+    const { accountId, categoryId, ...transactionData } = data;
     const apiData = {
       transaction: {
         ...transactionData,
         account_id: accountId, // Use snake_case for API
+        category_id: categoryId,
       }
     };
     const result = await this.client.post<any>('/transactions', apiData);
-    return TransactionSchema.parse(result);
+    const transaction = TransactionSchema.parse(result);
+    await this.notifyWrite({ type: 'upsert', transaction });
+    return transaction;
   }
 
   async updateTransaction(id: string, data: {
     category?: string;
+    // null clears the category
+    categoryId?: string | null;
     excluded?: boolean;
     name?: string;
     amount?: string;
@@ -137,36 +334,70 @@ export class MaybeFinanceAPI {
     notes?: string;
     tags?: string[];
   }): Promise<Transaction> {
-    const result = await this.client.put<any>(`/transactions/${id}`, { transaction: data });
-    return TransactionSchema.parse(result);
+    const { categoryId, ...transactionData } = data;
+    const result = await this.client.put<any>(`/transactions/${id}`, {
+      transaction: { ...transactionData, category_id: categoryId },
+    });
+    const transaction = TransactionSchema.parse(result);
+    await this.notifyWrite({ type: 'upsert', transaction });
+    return transaction;
   }
 
   async deleteTransaction(id: string): Promise<void> {
     await this.client.delete<void>(`/transactions/${id}`);
+    await this.notifyWrite({ type: 'delete', transactionId: id });
+  }
+
+  // The write already succeeded on the server, so a failing listener must not fail it
+  private async notifyWrite(write: TransactionWrite): Promise<void> {
+    for (const listener of transactionWriteListeners) {
+      try {
+        await listener(this.client.clientId, write);
+      } catch (error) {
+        console.error('[API Error] Transaction write listener failed:', error);
+      }
+    }
   }
 
   // Category endpoints
   async getCategories(): Promise<Category[]> {
     const data = await this.client.get<any>('/categories');
-    return z.array(CategorySchema).parse(data);
+    return z.array(CategorySchema).parse(data.categories || data);
   }
 
-  // AI Chat endpoints
-  async getChats(page: number = 1): Promise<{ chats: any[]; pagination: any }> {
-    return await this.client.get<any>('/chats', { params: { page } });
+  // AI Chat endpoints (never cached: replies arrive asynchronously)
+  async getChats(page: number = 1, perPage?: number): Promise<{ chats: ChatSummary[]; pagination: PaginationInfo }> {
+    const data = await this.client.get<any>('/chats', {
+      params: { page, per_page: perPage },
+    }, { skipCache: true });
+    return {
+      chats: z.array(ChatSummarySchema).parse(data.chats || []),
+      pagination: PaginationInfoSchema.parse(data.pagination),
+    };
+  }
+
+  async getChat(chatId: string, page: number = 1): Promise<Chat> {
+    const data = await this.client.get<any>(`/chats/${chatId}`, {
+      params: { page },
+    }, { skipCache: true });
+    return ChatSchema.parse(data);
   }
 
-  async createChat(title?: string, initialMessage?: string): Promise<any> {
-    return await this.client.post<any>('/chats', {
-      chat: { title },
-      message: initialMessage ? { content: initialMessage } : undefined,
+  async createChat(title?: string, initialMessage?: string, model?: string): Promise<Chat> {
+    const data = await this.client.post<any>('/chats', {
+      title,
+      message: initialMessage,
+      model,
     });
+    return ChatSchema.parse(data);
   }
 
-  async sendChatMessage(chatId: string, content: string): Promise<any> {
-    return await this.client.post<any>(`/chats/${chatId}/messages`, {
-      message: { content },
+  async sendChatMessage(chatId: string, content: string, model?: string): Promise<ChatMessage> {
+    const data = await this.client.post<any>(`/chats/${chatId}/messages`, {
+      content,
+      model,
     });
+    return ChatMessageSchema.parse(data);
   }
 
   async deleteChat(chatId: string): Promise<void> {
@@ -174,8 +405,25 @@ export class MaybeFinanceAPI {
   }
 
   // Usage tracking
-  async getUsage(): Promise<any> {
-    return await this.client.get<any>('/usage');
+  async getUsage(): Promise<ApiUsage> {
+    const data = await this.client.get<any>('/usage', undefined, { skipCache: true });
+    const usage = ApiUsageSchema.parse(data);
+
+    // Let the rate limiter work from the real remaining quota
+    const rateLimit = usage.rate_limit;
+    if (rateLimit) {
+      this.client.updateRateLimit({
+        limit: rateLimit.limit ?? undefined,
+        remaining: rateLimit.remaining ?? undefined,
+        resetInSeconds: rateLimit.reset_in_seconds,
+      });
+    }
+
+    return usage;
+  }
+
+  getRateLimitState(): RateLimitState {
+    return this.client.getRateLimitState();
   }
 
   // Analytics endpoints (may need custom implementation on server)
@@ -188,7 +436,7 @@ export class MaybeFinanceAPI {
       params.accountIds = accountIds.join(',');
     }
 
-    const { transactions } = await this.getTransactions(params);
+    const transactions = await this.getAllTransactions(params);
     
     // Calculate cash flow from transactions
     const inflows = transactions
@@ -0,0 +1,120 @@
+import { ToolError, ToolErrorCode, cancelledError } from '../utils/errors.js';
+
+export interface BatchOptions {
+  // Items worked on at the same time
+  concurrency?: number;
+  // Extra attempts for an item that failed with a transient error
+  retries?: number;
+  // Wait before the first retry; doubles with each further attempt
+  retryDelayMs?: number;
+  // Index of the first item to process, from an earlier run's cursor
+  startAt?: number;
+  onProgress?: (completed: number, total: number) => void | Promise<void>;
+  // Stops starting new items once aborted; items in flight still finish
+  signal?: AbortSignal;
+}
+
+export interface BatchItemResult<R> {
+  index: number;
+  status: 'success' | 'failed';
+  value?: R;
+  error?: { message: string; code: ToolErrorCode };
+  attempts: number;
+}
+
+export interface BatchResult<R> {
+  // Results for the items that were processed, in item order
+  results: BatchItemResult<R>[];
+  succeeded: number;
+  failed: number;
+  // Index to pass as startAt to continue, or null when every item was processed
+  cursor: number | null;
+  // Why the batch stopped before the last item
+  stoppedBy?: { message: string; code: ToolErrorCode };
+  cancelled: boolean;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+// Worth another attempt later; the HTTP client has already retried these briefly
+const TRANSIENT_CODES: ToolErrorCode[] = ['rate_limited', 'upstream_unavailable'];
+// Every remaining item would fail the same way, so stop and hand back a cursor
+const FATAL_CODES: ToolErrorCode[] = ['auth', 'rate_limited'];
+
+function describeError(error: unknown): { message: string; code: ToolErrorCode } {
+  if (error instanceof ToolError) return { message: error.message, code: error.code };
+  return { message: error instanceof Error ? error.message : 'Unknown error', code: 'internal' };
+}
+
+/**
+ * Run `worker` over `items` with bounded concurrency. One item failing never
+ * fails the batch: each item gets its own result. Transient failures are
+ * retried with backoff; failures that would hit every item (bad key,
+ * exhausted quota) stop the batch and return a cursor to resume from, as
+ * does cancelling through `signal`.
+ */
+export async function runBatch<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: BatchOptions = {}
+): Promise<BatchResult<R>> {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const retries = Math.max(0, options.retries ?? DEFAULT_RETRIES);
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const startAt = Math.min(Math.max(0, options.startAt ?? 0), items.length);
+
+  const results: BatchItemResult<R>[] = [];
+  let next = startAt;
+  let completed = 0;
+  let stoppedBy: BatchResult<R>['stoppedBy'];
+
+  const runItem = async (index: number): Promise<BatchItemResult<R>> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return { index, status: 'success', value: await worker(items[index], index), attempts: attempt };
+      } catch (error: unknown) {
+        const described = describeError(error);
+        if (attempt > retries || !TRANSIENT_CODES.includes(described.code) || stoppedBy || options.signal?.aborted) {
+          return { index, status: 'failed', error: described, attempts: attempt };
+        }
+        await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+      }
+    }
+  };
+
+  const lane = async () => {
+    // Items already started finish; no new ones start once the batch is stopped
+    while (next < items.length && !stoppedBy && !options.signal?.aborted) {
+      const result = await runItem(next++);
+      results.push(result);
+      if (result.error && FATAL_CODES.includes(result.error.code)) {
+        stoppedBy ??= result.error;
+      }
+
+      completed++;
+      await options.onProgress?.(completed, items.length - startAt);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length - startAt) }, lane));
+
+  results.sort((a, b) => a.index - b.index);
+  const succeeded = results.filter(r => r.status === 'success').length;
+
+  // Resume at the first item the stop hit, so it is tried again. Items after it
+  // that still succeeded run again too; callers make that a no-op.
+  const firstStopped = results.find(r => r.error && FATAL_CODES.includes(r.error.code));
+  const cursor = firstStopped ? firstStopped.index : next;
+  const cancelled = options.signal?.aborted === true && cursor < items.length;
+
+  return {
+    results,
+    succeeded,
+    failed: results.length - succeeded,
+    cursor: cursor < items.length ? cursor : null,
+    stoppedBy: stoppedBy ?? (cancelled ? describeError(cancelledError()) : undefined),
+    cancelled,
+  };
+}
@@ -0,0 +1,217 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+export interface CacheEntry {
+  data: unknown;
+  etag?: string;
+  storedAt: number;
+}
+
+/**
+ * Storage backend for cached API responses. Keys start with the request path,
+ * so a whole resource can be dropped by prefix when it is written to.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// In-memory LRU: Map keeps insertion order, so the first key is the least recently used
+export class LRUCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number = 500) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// One JSON file per key, so the cache survives restarts. Keeps at most
+// maxEntries files; the ones stored longest ago are deleted first.
+export class FileCacheStore implements CacheStore {
+  // Keys to files, oldest first
+  private index: Promise<Map<string, string>> | null = null;
+
+  constructor(private directory: string, private maxEntries: number = 500) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const index = await this.loadIndex();
+    const file = index.get(key);
+    if (!file) return undefined;
+
+    try {
+      const stored = JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf-8'));
+      return stored.entry;
+    } catch {
+      index.delete(key);
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const index = await this.loadIndex();
+    const file = `${createHash('sha1').update(key).digest('hex')}.json`;
+    await fs.writeFile(path.join(this.directory, file), JSON.stringify({ key, entry }));
+    index.delete(key);
+    index.set(key, file);
+    await this.evict(index);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    const index = await this.loadIndex();
+    for (const [key, file] of Array.from(index.entries())) {
+      if (!key.startsWith(prefix)) continue;
+      index.delete(key);
+      await fs.rm(path.join(this.directory, file), { force: true });
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteByPrefix('');
+  }
+
+  // Map keys to files once, by reading the key stored inside each file
+  private loadIndex(): Promise<Map<string, string>> {
+    this.index ??= this.readIndex().catch(error => {
+      this.index = null;
+      throw error;
+    });
+    return this.index;
+  }
+
+  private async readIndex(): Promise<Map<string, string>> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const found: Array<{ key: string; file: string; storedAt: number }> = [];
+    for (const file of await fs.readdir(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const stored = JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf-8'));
+        if (typeof stored.key === 'string') {
+          found.push({ key: stored.key, file, storedAt: Number(stored.entry?.storedAt) || 0 });
+        }
+      } catch {
+        // Ignore partially written or foreign files
+      }
+    }
+
+    found.sort((a, b) => a.storedAt - b.storedAt);
+    const index = new Map(found.map(({ key, file }) => [key, file]));
+    await this.evict(index);
+    return index;
+  }
+
+  private async evict(index: Map<string, string>): Promise<void> {
+    while (index.size > this.maxEntries) {
+      const [key, file] = index.entries().next().value as [string, string];
+      index.delete(key);
+      await fs.rm(path.join(this.directory, file), { force: true });
+    }
+  }
+}
+
+/**
+ * Memory LRU in front of an optional persistent store. Persistent store
+ * failures are logged and treated as misses so they never fail a request.
+ */
+export class TieredCache {
+  constructor(
+    private memory: CacheStore,
+    private persistent: CacheStore | null = null,
+    private namespace: string = ''
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const namespacedKey = this.namespace + key;
+    const entry = await this.memory.get(namespacedKey);
+    if (entry || !this.persistent) return entry;
+
+    const stored = await this.persistent.get(namespacedKey).catch(logCacheError);
+    if (stored) {
+      await this.memory.set(namespacedKey, stored);
+    }
+    return stored || undefined;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const namespacedKey = this.namespace + key;
+    await this.memory.set(namespacedKey, entry);
+    await this.persistent?.set(namespacedKey, entry).catch(logCacheError);
+  }
+
+  async invalidate(prefix: string): Promise<void> {
+    const namespacedPrefix = this.namespace + prefix;
+    await this.memory.deleteByPrefix(namespacedPrefix);
+    await this.persistent?.deleteByPrefix(namespacedPrefix).catch(logCacheError);
+  }
+
+  async clear(): Promise<void> {
+    await this.invalidate('');
+  }
+}
+
+function logCacheError(error: unknown): undefined {
+  console.error('[Cache Error]', error);
+  return undefined;
+}
+
+const fileStores = new Map<string, FileCacheStore>();
+const sharedCaches = new Map<string, TieredCache>();
+
+// One store per directory, so every client using it sees the others' writes in the index
+function fileStoreFor(directory: string, maxEntries: number): FileCacheStore {
+  const resolved = path.resolve(directory);
+  let store = fileStores.get(resolved);
+  if (!store) {
+    store = new FileCacheStore(resolved, maxEntries);
+    fileStores.set(resolved, store);
+  }
+  return store;
+}
+
+/**
+ * The cache for one namespace (server and API key). HTTP sessions using the
+ * same key share it, so a write in one session invalidates what the others
+ * would read.
+ */
+export function getSharedCache(namespace: string, options: { maxEntries: number; directory?: string }): TieredCache {
+  const id = `${options.directory ? path.resolve(options.directory) : ''}\0${namespace}`;
+  let cache = sharedCaches.get(id);
+  if (!cache) {
+    cache = new TieredCache(
+      new LRUCacheStore(options.maxEntries),
+      options.directory ? fileStoreFor(options.directory, options.maxEntries) : null,
+      namespace
+    );
+    sharedCaches.set(id, cache);
+  }
+  return cache;
+}
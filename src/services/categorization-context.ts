@@ -0,0 +1,29 @@
+import { subDays } from 'date-fns';
+import { MaybeFinanceAPI } from './api-client.js';
+import { CategorizationContext, CategorizationEngine } from './categorization-engine.js';
+import { CategoryLearner } from './category-learner.js';
+import { queryMirror } from './transaction-mirror.js';
+import { formatDateForAPI } from '../utils/date-utils.js';
+
+// A year and a bit, so monthly payments have enough occurrences to be detected
+const RECURRENCE_LOOKBACK_DAYS = 400;
+
+/**
+ * Build what the engine needs beyond the rules from the mirrored history:
+ * recurring payments for `isRecurring`, and the learner for transactions
+ * no rule matches
+ */
+export async function loadCategorizationContext(
+  apiClient: MaybeFinanceAPI,
+  engine: CategorizationEngine,
+  options: { useLearner?: boolean; minConfidence?: number } = {}
+): Promise<CategorizationContext> {
+  const { transactions } = await queryMirror(apiClient, {});
+  const recentSince = formatDateForAPI(subDays(new Date(), RECURRENCE_LOOKBACK_DAYS));
+
+  return {
+    recurrence: await engine.buildRecurrenceIndex(transactions.filter(tx => tx.date >= recentSince)),
+    learner: options.useLearner === false ? undefined : new CategoryLearner(transactions),
+    minLearnedConfidence: options.minConfidence,
+  };
+}
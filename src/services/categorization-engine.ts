@@ -1,4 +1,5 @@
 import { Transaction } from "./api-client.js";
+import { CategoryLearner } from "./category-learner.js";
 import { parseAmount } from "../utils/parsers.js";
 
 // Special categories matching user requirements
@@ -25,6 +26,54 @@ export interface CategorizationRule {
   };
 }
 
+export interface ParsedTransaction {
+  amount: number;
+  merchant: string;
+  description: string;
+  date: Date;
+  // null when there is no payment history to tell
+  recurring: boolean | null;
+  accountType: string | null;
+}
+
+export interface CategorizationContext {
+  // Without payment history, rules that require isRecurring can't match
+  recurrence?: RecurrenceIndex;
+  // Consulted when no rule matches, before the built-in heuristics
+  learner?: CategoryLearner;
+  minLearnedConfidence?: number;
+}
+
+const DEFAULT_MIN_LEARNED_CONFIDENCE = 0.6;
+
+export interface ConditionResult {
+  condition: keyof CategorizationRule['conditions'];
+  passed: boolean;
+  // The transaction value the condition was checked against
+  actual: string | number | boolean | null;
+  matchedPattern?: string;
+}
+
+export interface RuleEvaluation {
+  ruleId: string;
+  ruleName: string;
+  category: string;
+  priority: number;
+  matched: boolean;
+  conditions: ConditionResult[];
+}
+
+export interface CategorizationExplanation {
+  transactionId: string;
+  category: string | null;
+  source: 'rule' | 'learned' | 'heuristic' | 'default';
+  matchedRuleId?: string;
+  // Learner confidence, for learned categories
+  confidence?: number;
+  // Every rule in the order it was tried
+  evaluations: RuleEvaluation[];
+}
+
 export interface Subscription {
   merchant: string;
   amount: number;
@@ -35,344 +84,470 @@ export interface Subscription {
   transactions: Transaction[];
 }
 
-export class CategorizationEngine {
-  private rules: CategorizationRule[] = [
-    // Required Purchases - Groceries
-    {
-      id: 'groceries_nl',
-      name: 'Dutch Grocery Stores',
-      category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
-      priority: 95,
-      conditions: {
-        merchantPatterns: [
-          /albert\s*heijn/i, /jumbo/i, /lidl/i, /aldi/i, /plus/i, /coop/i,
-          /dirk/i, /vomar/i, /deen/i, /spar/i, /ekoplaza/i, /marqt/i
-        ],
-        descriptionPatterns: [/supermar/i, /grocery/i, /boodschap/i],
-      }
-    },
-    {
-      id: 'groceries_general',
-      name: 'General Grocery',
-      category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
-      priority: 90,
-      conditions: {
-        descriptionPatterns: [
-          /grocery/i, /supermarket/i, /food\s*store/i, /market/i
-        ],
-        amountRange: { min: 10, max: 300 }
-      }
-    },
-    
-    // Required Purchases - Utilities
-    {
-      id: 'utilities_energy',
-      name: 'Energy Utilities',
-      category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
-      priority: 100,
-      conditions: {
-        merchantPatterns: [
-          /eneco/i, /vattenfall/i, /essent/i, /nuon/i, /greenchoice/i,
-          /pure\s*energie/i, /vandebron/i, /budget\s*energie/i, /engie/i
-        ],
-        descriptionPatterns: [/electricity/i, /gas/i, /energie/i, /stroom/i],
-      }
-    },
-    {
-      id: 'utilities_water',
-      name: 'Water Utilities',
-      category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
-      priority: 100,
-      conditions: {
-        merchantPatterns: [/waternet/i, /vitens/i, /pwn/i, /evides/i, /dunea/i],
-        descriptionPatterns: [/water/i],
-      }
-    },
-    {
-      id: 'utilities_internet',
-      name: 'Internet/Telecom',
-      category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
-      priority: 95,
-      conditions: {
-        merchantPatterns: [
-          /ziggo/i, /kpn/i, /vodafone/i, /t-mobile/i, /tele2/i,
-          /xs4all/i, /online\.nl/i
-        ],
-        descriptionPatterns: [/internet/i, /broadband/i, /telecom/i],
-        isRecurring: true
-      }
-    },
-    
-    // Required Purchases - Housing
-    {
-      id: 'rent',
-      name: 'Rent/Mortgage',
-      category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
-      priority: 100,
-      conditions: {
-        descriptionPatterns: [
-          /rent/i, /huur/i, /mortgage/i, /hypotheek/i,
-          /woning/i, /verhuur/i
-        ],
-        dayOfMonth: [1, 2, 3, 28, 29, 30, 31],
-        amountRange: { min: 400 }
-      }
-    },
-    {
-      id: 'insurance',
-      name: 'Insurance',
-      category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
-      priority: 95,
-      conditions: {
-        merchantPatterns: [
-          /achmea/i, /aegon/i, /asr/i, /nn/i, /nationale.*nederlanden/i,
-          /zilveren\s*kruis/i, /cz/i, /vgz/i, /menzis/i, /fbto/i
-        ],
-        descriptionPatterns: [
-          /insurance/i, /verzekering/i, /zorgverzekering/i,
-          /inboedel/i, /aansprakelijk/i
-        ],
-        isRecurring: true
-      }
-    },
-    
-    // Subscriptions - Streaming
-    {
-      id: 'streaming',
-      name: 'Streaming Services',
-      category: SPECIAL_CATEGORIES.SUBSCRIPTIONS,
-      priority: 85,
-      conditions: {
-        merchantPatterns: [
-          /netflix/i, /spotify/i, /disney/i, /hbo/i, /videoland/i,
-          /amazon\s*prime/i, /apple\s*(tv|music)/i, /youtube\s*premium/i,
-          /viaplay/i, /nlziet/i, /discovery/i
-        ],
-        isRecurring: true,
-        amountRange: { min: 5, max: 50 }
-      }
-    },
-    
-    // Subscriptions - Software
-    {
-      id: 'software',
-      name: 'Software Subscriptions',
-      category: SPECIAL_CATEGORIES.SUBSCRIPTIONS,
-      priority: 80,
-      conditions: {
-        merchantPatterns: [
-          /adobe/i, /microsoft/i, /dropbox/i, /google\s*storage/i,
-          /github/i, /slack/i, /notion/i, /1password/i, /lastpass/i
-        ],
-        descriptionPatterns: [/subscription/i, /monthly/i, /license/i],
-        isRecurring: true
-      }
-    },
-    
-    // Subscriptions - Gym
-    {
-      id: 'gym',
-      name: 'Gym/Fitness',
-      category: SPECIAL_CATEGORIES.SUBSCRIPTIONS,
-      priority: 80,
-      conditions: {
-        merchantPatterns: [
-          /basic.*fit/i, /fit\s*for\s*free/i, /sportcity/i,
-          /anytime\s*fitness/i, /gym/i, /fitness/i
-        ],
-        descriptionPatterns: [/gym/i, /fitness/i, /sport/i],
-        isRecurring: true
-      }
-    },
-    
-    // Discretionary - Dining
-    {
-      id: 'dining_restaurants',
-      name: 'Restaurants',
-      category: SPECIAL_CATEGORIES.DISCRETIONARY,
-      priority: 70,
-      conditions: {
-        merchantPatterns: [
-          /restaurant/i, /cafe/i, /bistro/i, /brasserie/i,
-          /pizzeria/i, /sushi/i, /burger/i, /grill/i
-        ],
-        descriptionPatterns: [
-          /restaurant/i, /dining/i, /lunch/i, /dinner/i,
-          /breakfast/i, /brunch/i
-        ],
-        amountRange: { min: 15 }
-      }
-    },
-    {
-      id: 'dining_fast_food',
-      name: 'Fast Food',
-      category: SPECIAL_CATEGORIES.DISCRETIONARY,
-      priority: 65,
-      conditions: {
-        merchantPatterns: [
-          /mcdonald/i, /burger\s*king/i, /kfc/i, /subway/i,
-          /domino/i, /pizza\s*hut/i, /new\s*york\s*pizza/i,
-          /thuisbezorgd/i, /uber\s*eats/i, /deliveroo/i
-        ],
-        amountRange: { min: 5, max: 50 }
-      }
-    },
-    
-    // Discretionary - Entertainment
-    {
-      id: 'entertainment',
-      name: 'Entertainment',
-      category: SPECIAL_CATEGORIES.DISCRETIONARY,
-      priority: 60,
-      conditions: {
-        merchantPatterns: [
-          /pathe/i, /cinema/i, /theater/i, /concert/i,
-          /ticketmaster/i, /museum/i, /event/i
-        ],
-        descriptionPatterns: [
-          /ticket/i, /entertainment/i, /show/i, /movie/i
-        ]
-      }
-    },
-    {
-      id: 'shopping_clothing',
-      name: 'Clothing & Fashion',
-      category: SPECIAL_CATEGORIES.DISCRETIONARY,
-      priority: 60,
-      conditions: {
-        merchantPatterns: [
-          /h\s*&\s*m/i, /zara/i, /primark/i, /c\s*&\s*a/i,
-          /hema/i, /uniqlo/i, /nike/i, /adidas/i
-        ],
-        descriptionPatterns: [/clothing/i, /fashion/i, /apparel/i]
-      }
-    },
-    
-    // Spending but Assets - Electronics
-    {
-      id: 'electronics',
-      name: 'Electronics',
-      category: SPECIAL_CATEGORIES.SPENDING_BUT_ASSETS,
-      priority: 75,
-      conditions: {
-        merchantPatterns: [
-          /mediamarkt/i, /coolblue/i, /bol\.com/i, /apple/i,
-          /samsung/i, /bcc/i, /expert/i, /paradigit/i
-        ],
-        descriptionPatterns: [
-          /laptop/i, /computer/i, /phone/i, /tablet/i,
-          /tv/i, /television/i, /monitor/i, /headphone/i
-        ],
-        amountRange: { min: 100 }
-      }
-    },
-    
-    // Spending but Assets - Furniture
-    {
-      id: 'furniture',
-      name: 'Furniture & Home',
-      category: SPECIAL_CATEGORIES.SPENDING_BUT_ASSETS,
-      priority: 75,
-      conditions: {
-        merchantPatterns: [
-          /ikea/i, /leen\s*bakker/i, /kwantum/i, /praxis/i,
-          /gamma/i, /karwei/i, /hornbach/i
-        ],
-        descriptionPatterns: [
-          /furniture/i, /meubel/i, /desk/i, /chair/i,
-          /table/i, /couch/i, /bed/i, /mattress/i
-        ],
-        amountRange: { min: 50 }
-      }
-    },
-    
-    // Spending but Assets - Tools & Equipment
-    {
-      id: 'tools',
-      name: 'Tools & Equipment',
-      category: SPECIAL_CATEGORIES.SPENDING_BUT_ASSETS,
-      priority: 70,
-      conditions: {
-        merchantPatterns: [
-          /bosch/i, /makita/i, /dewalt/i, /toolstation/i
-        ],
-        descriptionPatterns: [
-          /tool/i, /drill/i, /equipment/i, /gereedschap/i
-        ],
-        amountRange: { min: 30 }
-      }
+// A payment counts as recurring when it is within this fraction of a detected subscription's amount
+const RECURRING_AMOUNT_TOLERANCE = 0.15;
+
+function normalizeMerchant(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Merchants with detected recurring payments and their usual amounts, so a
+ * one-off purchase at a subscription merchant isn't treated as recurring
+ */
+export class RecurrenceIndex {
+  private amountsByMerchant = new Map<string, number[]>();
+
+  constructor(subscriptions: Subscription[]) {
+    for (const subscription of subscriptions) {
+      const merchant = normalizeMerchant(subscription.merchant);
+      const amounts = this.amountsByMerchant.get(merchant) || [];
+      amounts.push(subscription.amount);
+      this.amountsByMerchant.set(merchant, amounts);
     }
-  ];
+  }
+
+  get size(): number {
+    return this.amountsByMerchant.size;
+  }
+
+  isRecurring(transaction: Transaction): boolean {
+    const amounts = this.amountsByMerchant.get(normalizeMerchant(transaction.merchant || transaction.name || ''));
+    if (!amounts) return false;
 
-  async categorize(transaction: Transaction): Promise<string | null> {
     const amount = Math.abs(parseAmount(transaction.amount));
-    const merchant = (transaction.merchant || transaction.name || '').toLowerCase();
-    const description = (transaction.name || '').toLowerCase();
-    const date = new Date(transaction.date);
+    return amounts.some(expected => Math.abs(amount - expected) <= expected * RECURRING_AMOUNT_TOLERANCE);
+  }
+}
 
-    // Sort rules by priority (highest first)
-    const sortedRules = [...this.rules].sort((a, b) => b.priority - a.priority);
+// Built-in rules, used until the user saves their own rule set
+export const DEFAULT_RULES: CategorizationRule[] = [
+  // Required Purchases - Groceries
+  {
+    id: 'groceries_nl',
+    name: 'Dutch Grocery Stores',
+    category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
+    priority: 95,
+    conditions: {
+      merchantPatterns: [
+        /albert\s*heijn/i, /jumbo/i, /lidl/i, /aldi/i, /plus/i, /coop/i,
+        /dirk/i, /vomar/i, /deen/i, /spar/i, /ekoplaza/i, /marqt/i
+      ],
+      descriptionPatterns: [/supermar/i, /grocery/i, /boodschap/i],
+    }
+  },
+  {
+    id: 'groceries_general',
+    name: 'General Grocery',
+    category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
+    priority: 90,
+    conditions: {
+      descriptionPatterns: [
+        /grocery/i, /supermarket/i, /food\s*store/i, /market/i
+      ],
+      amountRange: { min: 10, max: 300 }
+    }
+  },
+  
+  // Required Purchases - Utilities
+  {
+    id: 'utilities_energy',
+    name: 'Energy Utilities',
+    category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
+    priority: 100,
+    conditions: {
+      merchantPatterns: [
+        /eneco/i, /vattenfall/i, /essent/i, /nuon/i, /greenchoice/i,
+        /pure\s*energie/i, /vandebron/i, /budget\s*energie/i, /engie/i
+      ],
+      descriptionPatterns: [/electricity/i, /gas/i, /energie/i, /stroom/i],
+    }
+  },
+  {
+    id: 'utilities_water',
+    name: 'Water Utilities',
+    category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
+    priority: 100,
+    conditions: {
+      merchantPatterns: [/waternet/i, /vitens/i, /pwn/i, /evides/i, /dunea/i],
+      descriptionPatterns: [/water/i],
+    }
+  },
+  {
+    id: 'utilities_internet',
+    name: 'Internet/Telecom',
+    category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
+    priority: 95,
+    conditions: {
+      merchantPatterns: [
+        /ziggo/i, /kpn/i, /vodafone/i, /t-mobile/i, /tele2/i,
+        /xs4all/i, /online\.nl/i
+      ],
+      descriptionPatterns: [/internet/i, /broadband/i, /telecom/i],
+      isRecurring: true
+    }
+  },
+  
+  // Required Purchases - Housing
+  {
+    id: 'rent',
+    name: 'Rent/Mortgage',
+    category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
+    priority: 100,
+    conditions: {
+      descriptionPatterns: [
+        /rent/i, /huur/i, /mortgage/i, /hypotheek/i,
+        /woning/i, /verhuur/i
+      ],
+      dayOfMonth: [1, 2, 3, 28, 29, 30, 31],
+      amountRange: { min: 400 }
+    }
+  },
+  {
+    id: 'insurance',
+    name: 'Insurance',
+    category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES,
+    priority: 95,
+    conditions: {
+      merchantPatterns: [
+        /achmea/i, /aegon/i, /asr/i, /nn/i, /nationale.*nederlanden/i,
+        /zilveren\s*kruis/i, /cz/i, /vgz/i, /menzis/i, /fbto/i
+      ],
+      descriptionPatterns: [
+        /insurance/i, /verzekering/i, /zorgverzekering/i,
+        /inboedel/i, /aansprakelijk/i
+      ],
+      isRecurring: true
+    }
+  },
+  
+  // Subscriptions - Streaming
+  {
+    id: 'streaming',
+    name: 'Streaming Services',
+    category: SPECIAL_CATEGORIES.SUBSCRIPTIONS,
+    priority: 85,
+    conditions: {
+      merchantPatterns: [
+        /netflix/i, /spotify/i, /disney/i, /hbo/i, /videoland/i,
+        /amazon\s*prime/i, /apple\s*(tv|music)/i, /youtube\s*premium/i,
+        /viaplay/i, /nlziet/i, /discovery/i
+      ],
+      isRecurring: true,
+      amountRange: { min: 5, max: 50 }
+    }
+  },
+  
+  // Subscriptions - Software
+  {
+    id: 'software',
+    name: 'Software Subscriptions',
+    category: SPECIAL_CATEGORIES.SUBSCRIPTIONS,
+    priority: 80,
+    conditions: {
+      merchantPatterns: [
+        /adobe/i, /microsoft/i, /dropbox/i, /google\s*storage/i,
+        /github/i, /slack/i, /notion/i, /1password/i, /lastpass/i
+      ],
+      descriptionPatterns: [/subscription/i, /monthly/i, /license/i],
+      isRecurring: true
+    }
+  },
+  
+  // Subscriptions - Gym
+  {
+    id: 'gym',
+    name: 'Gym/Fitness',
+    category: SPECIAL_CATEGORIES.SUBSCRIPTIONS,
+    priority: 80,
+    conditions: {
+      merchantPatterns: [
+        /basic.*fit/i, /fit\s*for\s*free/i, /sportcity/i,
+        /anytime\s*fitness/i, /gym/i, /fitness/i
+      ],
+      descriptionPatterns: [/gym/i, /fitness/i, /sport/i],
+      isRecurring: true
+    }
+  },
+  
+  // Discretionary - Dining
+  {
+    id: 'dining_restaurants',
+    name: 'Restaurants',
+    category: SPECIAL_CATEGORIES.DISCRETIONARY,
+    priority: 70,
+    conditions: {
+      merchantPatterns: [
+        /restaurant/i, /cafe/i, /bistro/i, /brasserie/i,
+        /pizzeria/i, /sushi/i, /burger/i, /grill/i
+      ],
+      descriptionPatterns: [
+        /restaurant/i, /dining/i, /lunch/i, /dinner/i,
+        /breakfast/i, /brunch/i
+      ],
+      amountRange: { min: 15 }
+    }
+  },
+  {
+    id: 'dining_fast_food',
+    name: 'Fast Food',
+    category: SPECIAL_CATEGORIES.DISCRETIONARY,
+    priority: 65,
+    conditions: {
+      merchantPatterns: [
+        /mcdonald/i, /burger\s*king/i, /kfc/i, /subway/i,
+        /domino/i, /pizza\s*hut/i, /new\s*york\s*pizza/i,
+        /thuisbezorgd/i, /uber\s*eats/i, /deliveroo/i
+      ],
+      amountRange: { min: 5, max: 50 }
+    }
+  },
+  
+  // Discretionary - Entertainment
+  {
+    id: 'entertainment',
+    name: 'Entertainment',
+    category: SPECIAL_CATEGORIES.DISCRETIONARY,
+    priority: 60,
+    conditions: {
+      merchantPatterns: [
+        /pathe/i, /cinema/i, /theater/i, /concert/i,
+        /ticketmaster/i, /museum/i, /event/i
+      ],
+      descriptionPatterns: [
+        /ticket/i, /entertainment/i, /show/i, /movie/i
+      ]
+    }
+  },
+  {
+    id: 'shopping_clothing',
+    name: 'Clothing & Fashion',
+    category: SPECIAL_CATEGORIES.DISCRETIONARY,
+    priority: 60,
+    conditions: {
+      merchantPatterns: [
+        /h\s*&\s*m/i, /zara/i, /primark/i, /c\s*&\s*a/i,
+        /hema/i, /uniqlo/i, /nike/i, /adidas/i
+      ],
+      descriptionPatterns: [/clothing/i, /fashion/i, /apparel/i]
+    }
+  },
+  
+  // Spending but Assets - Electronics
+  {
+    id: 'electronics',
+    name: 'Electronics',
+    category: SPECIAL_CATEGORIES.SPENDING_BUT_ASSETS,
+    priority: 75,
+    conditions: {
+      merchantPatterns: [
+        /mediamarkt/i, /coolblue/i, /bol\.com/i, /apple/i,
+        /samsung/i, /bcc/i, /expert/i, /paradigit/i
+      ],
+      descriptionPatterns: [
+        /laptop/i, /computer/i, /phone/i, /tablet/i,
+        /tv/i, /television/i, /monitor/i, /headphone/i
+      ],
+      amountRange: { min: 100 }
+    }
+  },
+  
+  // Spending but Assets - Furniture
+  {
+    id: 'furniture',
+    name: 'Furniture & Home',
+    category: SPECIAL_CATEGORIES.SPENDING_BUT_ASSETS,
+    priority: 75,
+    conditions: {
+      merchantPatterns: [
+        /ikea/i, /leen\s*bakker/i, /kwantum/i, /praxis/i,
+        /gamma/i, /karwei/i, /hornbach/i
+      ],
+      descriptionPatterns: [
+        /furniture/i, /meubel/i, /desk/i, /chair/i,
+        /table/i, /couch/i, /bed/i, /mattress/i
+      ],
+      amountRange: { min: 50 }
+    }
+  },
+  
+  // Spending but Assets - Tools & Equipment
+  {
+    id: 'tools',
+    name: 'Tools & Equipment',
+    category: SPECIAL_CATEGORIES.SPENDING_BUT_ASSETS,
+    priority: 70,
+    conditions: {
+      merchantPatterns: [
+        /bosch/i, /makita/i, /dewalt/i, /toolstation/i
+      ],
+      descriptionPatterns: [
+        /tool/i, /drill/i, /equipment/i, /gereedschap/i
+      ],
+      amountRange: { min: 30 }
+    }
+  }
+];
 
-    for (const rule of sortedRules) {
-      if (this.matchesRule(transaction, rule, { amount, merchant, description, date })) {
-        return rule.category;
-      }
+export class CategorizationEngine {
+  private rules: CategorizationRule[];
+
+  constructor(rules: CategorizationRule[] = DEFAULT_RULES) {
+    this.rules = [...rules].sort((a, b) => b.priority - a.priority);
+  }
+
+  async categorize(transaction: Transaction, context: CategorizationContext = {}): Promise<string | null> {
+    return (await this.explain(transaction, context)).category;
+  }
+
+  /**
+   * Evaluate every rule against the transaction, highest priority first, and
+   * report which conditions passed. The first matching rule wins; when none
+   * match, a confident learner suggestion, the grocery/subscription heuristics
+   * and then the default apply.
+   */
+  async explain(transaction: Transaction, context: CategorizationContext = {}): Promise<CategorizationExplanation> {
+    const parsed = this.parseTransaction(transaction, context);
+    const evaluations = this.rules.map(rule => this.evaluateRule(rule, parsed));
+    const winner = evaluations.find(evaluation => evaluation.matched);
+
+    if (winner) {
+      return {
+        transactionId: transaction.id,
+        category: winner.category,
+        source: 'rule',
+        matchedRuleId: winner.ruleId,
+        evaluations,
+      };
+    }
+
+    // The user's own categorization history beats generic heuristics
+    const learned = context.learner?.suggest(transaction, 1)[0];
+    if (learned && learned.confidence >= (context.minLearnedConfidence ?? DEFAULT_MIN_LEARNED_CONFIDENCE)) {
+      return {
+        transactionId: transaction.id,
+        category: learned.category,
+        source: 'learned',
+        confidence: learned.confidence,
+        evaluations,
+      };
     }
 
     // Default categorization based on amount and patterns
-    if (this.isLikelyGrocery(merchant, description, amount)) {
-      return SPECIAL_CATEGORIES.REQUIRED_PURCHASES;
+    if (this.isLikelyGrocery(parsed.merchant, parsed.description, parsed.amount)) {
+      return { transactionId: transaction.id, category: SPECIAL_CATEGORIES.REQUIRED_PURCHASES, source: 'heuristic', evaluations };
     }
-    
-    if (this.isLikelySubscription(merchant, amount)) {
-      return SPECIAL_CATEGORIES.SUBSCRIPTIONS;
+
+    if (this.isLikelySubscription(parsed.merchant, parsed.amount)) {
+      return { transactionId: transaction.id, category: SPECIAL_CATEGORIES.SUBSCRIPTIONS, source: 'heuristic', evaluations };
     }
 
     // Default to discretionary for unmatched expenses
-    return SPECIAL_CATEGORIES.DISCRETIONARY;
+    return { transactionId: transaction.id, category: SPECIAL_CATEGORIES.DISCRETIONARY, source: 'default', evaluations };
   }
 
-  private matchesRule(
-    _transaction: Transaction,
-    rule: CategorizationRule,
-    parsed: { amount: number; merchant: string; description: string; date: Date }
-  ): boolean {
+  /**
+   * Check each condition of a rule separately, without stopping at the first
+   * failure, so callers can see exactly why a rule did or didn't match
+   */
+  evaluateRule(rule: CategorizationRule, parsed: ParsedTransaction): RuleEvaluation {
     const { conditions } = rule;
+    const results: ConditionResult[] = [];
 
     // Check merchant patterns
     if (conditions.merchantPatterns?.length) {
-      const matches = conditions.merchantPatterns.some(pattern =>
-        pattern.test(parsed.merchant)
-      );
-      if (!matches) return false;
+      const match = conditions.merchantPatterns.find(pattern => pattern.test(parsed.merchant));
+      results.push({
+        condition: 'merchantPatterns',
+        passed: Boolean(match),
+        actual: parsed.merchant,
+        matchedPattern: match?.source,
+      });
     }
 
     // Check description patterns
     if (conditions.descriptionPatterns?.length) {
-      const matches = conditions.descriptionPatterns.some(pattern =>
+      const match = conditions.descriptionPatterns.find(pattern =>
         pattern.test(parsed.description) || pattern.test(parsed.merchant)
       );
-      if (!matches) return false;
+      results.push({
+        condition: 'descriptionPatterns',
+        passed: Boolean(match),
+        actual: parsed.description,
+        matchedPattern: match?.source,
+      });
     }
 
     // Check amount range
     if (conditions.amountRange) {
       const { min, max } = conditions.amountRange;
-      if (min !== undefined && parsed.amount < min) return false;
-      if (max !== undefined && parsed.amount > max) return false;
+      results.push({
+        condition: 'amountRange',
+        passed: (min === undefined || parsed.amount >= min) && (max === undefined || parsed.amount <= max),
+        actual: parsed.amount,
+      });
     }
 
     // Check day of week
     if (conditions.dayOfWeek?.length) {
-      if (!conditions.dayOfWeek.includes(parsed.date.getDay())) return false;
+      results.push({
+        condition: 'dayOfWeek',
+        passed: conditions.dayOfWeek.includes(parsed.date.getDay()),
+        actual: parsed.date.getDay(),
+      });
     }
 
     // Check day of month
     if (conditions.dayOfMonth?.length) {
-      if (!conditions.dayOfMonth.includes(parsed.date.getDate())) return false;
+      results.push({
+        condition: 'dayOfMonth',
+        passed: conditions.dayOfMonth.includes(parsed.date.getDate()),
+        actual: parsed.date.getDate(),
+      });
     }
 
-    return true;
+    // Check recurrence against the payment history
+    if (conditions.isRecurring !== undefined) {
+      results.push({
+        condition: 'isRecurring',
+        passed: parsed.recurring !== null && parsed.recurring === conditions.isRecurring,
+        actual: parsed.recurring,
+      });
+    }
+
+    // Check account type
+    if (conditions.accountType?.length) {
+      results.push({
+        condition: 'accountType',
+        passed: parsed.accountType !== null &&
+          conditions.accountType.some(type => type.toLowerCase() === parsed.accountType),
+        actual: parsed.accountType,
+      });
+    }
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      category: rule.category,
+      priority: rule.priority,
+      matched: results.every(result => result.passed),
+      conditions: results,
+    };
+  }
+
+  parseTransaction(transaction: Transaction, context: CategorizationContext = {}): ParsedTransaction {
+    return {
+      amount: Math.abs(parseAmount(transaction.amount)),
+      merchant: (transaction.merchant || transaction.name || '').toLowerCase(),
+      description: (transaction.name || '').toLowerCase(),
+      date: new Date(transaction.date),
+      recurring: context.recurrence ? context.recurrence.isRecurring(transaction) : null,
+      accountType: transaction.account?.account_type?.toLowerCase() || null,
+    };
+  }
+
+  async buildRecurrenceIndex(history: Transaction[]): Promise<RecurrenceIndex> {
+    return new RecurrenceIndex(await this.detectSubscriptions(history));
   }
 
   private isLikelyGrocery(merchant: string, description: string, amount: number): boolean {
@@ -403,8 +578,14 @@ export class CategorizationEngine {
     // Group transactions by merchant and amount
     for (const tx of transactions) {
       if (tx.classification !== 'expense') continue;
-      
-      const amount = Math.abs(parseAmount(tx.amount));
+
+      let amount: number;
+      try {
+        amount = Math.abs(parseAmount(tx.amount));
+      } catch {
+        // An amount we can't read can't be part of a recurring payment
+        continue;
+      }
       const key = `${tx.merchant || tx.name}:${amount.toFixed(2)}`;
       
       if (!merchantGroups[key]) {
@@ -519,4 +700,14 @@ export class CategorizationEngine {
     }
     return false;
   }
+
+  // Replace rule by ID, keeping priority order
+  updateRule(rule: CategorizationRule): boolean {
+    const index = this.rules.findIndex(r => r.id === rule.id);
+    if (index < 0) return false;
+
+    this.rules[index] = rule;
+    this.rules.sort((a, b) => b.priority - a.priority);
+    return true;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { Transaction } from './api-client.js';
+
+export interface CategorySuggestion {
+  category: string;
+  // Posterior probability among the categories seen in history
+  confidence: number;
+  // Earlier transactions from the same merchant with this category
+  merchantMatches: number;
+}
+
+// The learner only looks at what the transaction says, not amounts or dates
+type TextFields = Pick<Transaction, 'merchant' | 'name'>;
+
+// Merchant identity is stronger evidence than any single word
+const MERCHANT_WEIGHT = 3;
+
+// Bank boilerplate and filler that says nothing about the category
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'payment', 'purchase', 'card', 'pos', 'ref',
+  'van', 'het', 'een', 'bij', 'voor', 'via', 'naar', 'betaling', 'betaalautomaat',
+  'pas', 'pasnr', 'omschrijving', 'termijn', 'incasso', 'sepa', 'iban', 'bic',
+]);
+
+function normalizeMerchant(transaction: TextFields): string {
+  return (transaction.merchant || transaction.name || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}]+/u)
+    .filter(token => token.length >= 3 && !STOP_WORDS.has(token));
+}
+
+function featuresOf(transaction: TextFields): string[] {
+  const features = tokenize(`${transaction.merchant || ''} ${transaction.name || ''}`);
+  const merchant = normalizeMerchant(transaction);
+  if (merchant) {
+    for (let i = 0; i < MERCHANT_WEIGHT; i++) features.push(`merchant:${merchant}`);
+  }
+  return features;
+}
+
+/**
+ * Multinomial naive Bayes over merchant and description tokens, trained on
+ * transactions the user already categorized. Suggests the categories the user
+ * would likely pick, rather than the built-in rules' special categories.
+ */
+export class CategoryLearner {
+  private examples = 0;
+  private categoryCounts = new Map<string, number>();
+  private featureCounts = new Map<string, Map<string, number>>();
+  private featureTotals = new Map<string, number>();
+  private vocabulary = new Set<string>();
+  private merchantCategories = new Map<string, Map<string, number>>();
+
+  constructor(history: Transaction[] = []) {
+    history.forEach(transaction => this.learn(transaction));
+  }
+
+  get size(): number {
+    return this.examples;
+  }
+
+  get categories(): string[] {
+    return Array.from(this.categoryCounts.keys());
+  }
+
+  learn(transaction: Transaction): void {
+    const category = transaction.category;
+    if (!category) return;
+
+    this.examples++;
+    this.categoryCounts.set(category, (this.categoryCounts.get(category) || 0) + 1);
+
+    const counts = this.featureCounts.get(category) || new Map<string, number>();
+    for (const feature of featuresOf(transaction)) {
+      counts.set(feature, (counts.get(feature) || 0) + 1);
+      this.featureTotals.set(category, (this.featureTotals.get(category) || 0) + 1);
+      this.vocabulary.add(feature);
+    }
+    this.featureCounts.set(category, counts);
+
+    const merchant = normalizeMerchant(transaction);
+    if (merchant) {
+      const byCategory = this.merchantCategories.get(merchant) || new Map<string, number>();
+      byCategory.set(category, (byCategory.get(category) || 0) + 1);
+      this.merchantCategories.set(merchant, byCategory);
+    }
+  }
+
+  /**
+   * Top categories for a transaction. Empty when nothing about it was seen
+   * before, so callers don't mistake the most common category for evidence.
+   */
+  suggest(transaction: TextFields, topK: number = 3): CategorySuggestion[] {
+    const features = featuresOf(transaction).filter(feature => this.vocabulary.has(feature));
+    if (features.length === 0) return [];
+
+    // Log scores with Laplace smoothing, then normalize to probabilities
+    const scores = Array.from(this.categoryCounts.entries()).map(([category, count]) => {
+      const counts = this.featureCounts.get(category)!;
+      const denominator = (this.featureTotals.get(category) || 0) + this.vocabulary.size;
+      let score = Math.log(count / this.examples);
+      for (const feature of features) {
+        score += Math.log(((counts.get(feature) || 0) + 1) / denominator);
+      }
+      return { category, score };
+    });
+
+    const best = Math.max(...scores.map(s => s.score));
+    const weights = scores.map(s => ({ category: s.category, weight: Math.exp(s.score - best) }));
+    const total = weights.reduce((sum, w) => sum + w.weight, 0);
+    const byMerchant = this.merchantCategories.get(normalizeMerchant(transaction));
+
+    return weights
+      .map(w => ({
+        category: w.category,
+        confidence: Math.round((w.weight / total) * 1000) / 1000,
+        merchantMatches: byMerchant?.get(w.category) || 0,
+      }))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, topK);
+  }
+}
@@ -0,0 +1,173 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { Category, MaybeFinanceAPI } from './api-client.js';
+import { ToolError, ToolErrorIssue, formatZodIssues } from '../utils/errors.js';
+
+export interface CategoryResolution {
+  name: string;
+  categoryId?: string;
+  // The Maybe category the name resolved to
+  matchedName?: string;
+  via?: 'exact' | 'alias' | 'fuzzy';
+  // Closest Maybe categories, for names that didn't resolve
+  suggestions?: string[];
+}
+
+const AliasFileSchema = z.record(z.string().min(1));
+
+// Names closer than this (0-1, by edit distance) count as the same category
+const FUZZY_THRESHOLD = 0.8;
+
+function normalize(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  // Levenshtein distance, one row at a time
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+}
+
+/**
+ * Maps category names produced by rules, the learner or the user to the
+ * family's real Maybe categories: exact (case and accent-insensitive) first,
+ * then the alias map, then a close fuzzy match.
+ */
+export class CategoryResolver {
+  private byName = new Map<string, Category>();
+  private aliases = new Map<string, string>();
+
+  constructor(private categories: Category[], aliases: Record<string, string> = {}) {
+    for (const category of categories) {
+      this.byName.set(normalize(category.name), category);
+    }
+    for (const [from, to] of Object.entries(aliases)) {
+      this.aliases.set(normalize(from), to);
+    }
+  }
+
+  resolve(name: string): CategoryResolution {
+    const key = normalize(name);
+
+    const exact = this.byName.get(key);
+    if (exact) {
+      return { name, categoryId: exact.id, matchedName: exact.name, via: 'exact' };
+    }
+
+    const alias = this.aliases.get(key);
+    const aliased = alias ? this.byName.get(normalize(alias)) : undefined;
+    if (aliased) {
+      return { name, categoryId: aliased.id, matchedName: aliased.name, via: 'alias' };
+    }
+
+    const ranked = this.categories
+      .map(category => ({ category, score: similarity(key, normalize(category.name)) }))
+      .sort((a, b) => b.score - a.score);
+
+    // Only accept a fuzzy match that is clearly better than the runner-up
+    const [best, second] = ranked;
+    if (best && best.score >= FUZZY_THRESHOLD && (!second || best.score > second.score)) {
+      return { name, categoryId: best.category.id, matchedName: best.category.name, via: 'fuzzy' };
+    }
+
+    return {
+      name,
+      suggestions: ranked.slice(0, 3).map(r => r.category.name),
+    };
+  }
+
+  /**
+   * Resolve every name, or throw a validation error listing the ones that
+   * don't exist in Maybe so nothing is written with a wrong category
+   */
+  resolveAll(names: string[]): Map<string, CategoryResolution> {
+    const resolutions = new Map(Array.from(new Set(names)).map(name => [name, this.resolve(name)]));
+    const unresolved = Array.from(resolutions.values()).filter(r => !r.categoryId);
+
+    if (unresolved.length > 0) {
+      throw unresolvedCategoriesError(unresolved);
+    }
+    return resolutions;
+  }
+}
+
+export function unresolvedCategoriesError(unresolved: CategoryResolution[]): ToolError {
+  const issues: ToolErrorIssue[] = unresolved.map(r => ({
+    path: r.name,
+    message: r.suggestions?.length
+      ? `No Maybe category matches; closest: ${r.suggestions.join(', ')}`
+      : 'No Maybe category matches',
+    code: 'unresolved_category',
+  }));
+
+  return new ToolError(
+    `Unknown categories: ${unresolved.map(r => `'${r.name}'`).join(', ')}. ` +
+      'Create them in Maybe or map them in the category alias file.',
+    'validation',
+    undefined,
+    issues
+  );
+}
+
+let aliasPath: string | null = null;
+
+export function configureCategoryAliases(filePath?: string): void {
+  aliasPath = filePath || null;
+}
+
+async function loadAliases(): Promise<Record<string, string>> {
+  if (!aliasPath) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(aliasPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new ToolError(`Category alias file ${aliasPath} is not valid JSON: ${(error as Error).message}`, 'validation');
+  }
+
+  const parsed = AliasFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ToolError(`Category alias file ${aliasPath} is invalid`, 'validation', undefined, formatZodIssues(parsed.error));
+  }
+  return parsed.data;
+}
+
+/**
+ * Build a resolver from the family's current categories and the alias file.
+ * Both are re-read on every call so edits apply without a restart.
+ */
+export async function loadCategoryResolver(apiClient: MaybeFinanceAPI): Promise<CategoryResolver> {
+  const [categories, aliases] = await Promise.all([apiClient.getCategories(), loadAliases()]);
+  return new CategoryResolver(categories, aliases);
+}
+
+/**
+ * Look up the Maybe category ID for a single name, failing with the closest
+ * matches when it doesn't exist
+ */
+export async function resolveCategoryId(apiClient: MaybeFinanceAPI, name: string): Promise<string> {
+  const resolver = await loadCategoryResolver(apiClient);
+  return resolver.resolveAll([name]).get(name)!.categoryId!;
+}
@@ -0,0 +1,152 @@
+import Papa from 'papaparse';
+
+export const CSV_CHARSETS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252'] as const;
+export type CsvCharset = typeof CSV_CHARSETS[number];
+
+/**
+ * Where the table sits in a CSV file and how it is split
+ */
+export interface CsvLayout {
+  delimiter: string;
+  // Lines before the header, or before the first row of files without one
+  skipRows: number;
+  // Summary lines after the last row
+  skipTrailingRows: number;
+  hasHeader: boolean;
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// What Windows-1252 has at 0x80-0x9F, such as the euro sign at 0x80. Node's
+// TextDecoder reads these bytes as Latin-1 control characters instead.
+const WINDOWS_1252_C1 = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+// First cells of balance and total lines banks append below the rows
+const SUMMARY_LINE = /^(totaal|totalen|total|totals|sum|summe|saldo|eindsaldo|beginsaldo|balance|opening balance|closing balance)\b/i;
+
+// Cells that are dates or amounts rather than column names
+const DATA_CELL = /^([-+]?[\d.,]*\d|\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}.*)$/;
+
+/**
+ * Decode an uploaded file. Without a charset, a byte order mark decides, then
+ * valid UTF-8, and anything else is read as Windows-1252 (a superset of
+ * Latin-1, which is what most banking software writes).
+ */
+export function decodeCsvBytes(bytes: Buffer, charset?: CsvCharset): { text: string; charset: CsvCharset } {
+  const detected = charset ?? detectCharset(bytes);
+  // TextDecoder drops the byte order mark
+  let text = new TextDecoder(detected).decode(bytes);
+  if (detected === 'windows-1252') {
+    text = text.replace(/[\u0080-\u009f]/g, char => WINDOWS_1252_C1[char.charCodeAt(0) - 0x80]);
+  }
+  return { text, charset: detected };
+}
+
+function detectCharset(bytes: Buffer): CsvCharset {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+// Lines of the file without a byte order mark or trailing blank lines
+function csvLines(text: string): string[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+  return lines;
+}
+
+function countDelimiters(line: string, delimiter: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+}
+
+// The delimiter count most lines share: the table's width. Ties go to the wider table.
+function commonCount(counts: number[]): { count: number; lines: number } {
+  const frequency = new Map<number, number>();
+  for (const count of counts) frequency.set(count, (frequency.get(count) ?? 0) + 1);
+
+  let best = { count: 0, lines: 0 };
+  for (const [count, lines] of frequency) {
+    if (lines > best.lines || (lines === best.lines && count > best.count)) best = { count, lines };
+  }
+  return best;
+}
+
+// The delimiter that splits the most cells into rows of one width. Counting
+// lines alone would pick the comma in files with comma decimals ("45,20").
+function guessDelimiter(lines: string[]): string {
+  let best = { delimiter: DELIMITERS[0], cells: 0 };
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.filter(line => line.trim()).map(line => countDelimiters(line, delimiter)).filter(count => count > 0);
+    const common = commonCount(counts);
+    const cells = common.lines * (common.count + 1);
+    if (cells > best.cells) best = { delimiter, cells };
+  }
+  return best.delimiter;
+}
+
+function cells(line: string, delimiter: string): string[] {
+  return (Papa.parse<string[]>(line, { header: false, delimiter }).data[0] || []).map(cell => cell.trim());
+}
+
+/**
+ * Find the delimiter and the table in a file: preamble lines (account
+ * details, the period) and trailing summary lines don't have as many columns
+ * as the rows, or start with a total or balance label. Settings passed in
+ * are kept as they are.
+ */
+export function detectCsvLayout(text: string, settings: Partial<CsvLayout> = {}): CsvLayout {
+  const lines = csvLines(text);
+  const delimiter = settings.delimiter ?? guessDelimiter(lines);
+  const counts = lines.map(line => line.trim() ? countDelimiters(line, delimiter) : -1);
+  const width = commonCount(counts.filter(count => count >= 0)).count;
+
+  const isData = (index: number) => cells(lines[index] ?? '', delimiter).some(cell => DATA_CELL.test(cell));
+
+  // The table is the longest run of lines as wide as the rows
+  let first = 0;
+  let last = -1;
+  for (let start = 0; start < lines.length; start++) {
+    if (counts[start] !== width || counts[start - 1] === width) continue;
+    let end = start;
+    while (counts[end + 1] === width) end++;
+    if (end - start > last - first) {
+      first = start;
+      last = end;
+    }
+  }
+  // A preamble line can be as wide as the table ("Period;01-01-2024;31-01-2024"); the
+  // header is the line of names right above the first row of values
+  const header = Array.from({ length: Math.max(0, last - first) }, (_, i) => first + i)
+    .find(index => !isData(index) && isData(index + 1));
+  if (header !== undefined) first = header;
+  while (last > first && SUMMARY_LINE.test(cells(lines[last], delimiter)[0] || '')) last--;
+
+  const skipRows = settings.skipRows ?? first;
+  return {
+    delimiter,
+    skipRows,
+    skipTrailingRows: settings.skipTrailingRows ?? Math.max(0, lines.length - 1 - last),
+    hasHeader: settings.hasHeader ?? !isData(skipRows),
+  };
+}
+
+/**
+ * The table part of the file, without preamble and trailing summary lines
+ */
+export function sliceCsvBody(text: string, layout: CsvLayout): string {
+  const lines = csvLines(text);
+  return lines.slice(layout.skipRows, lines.length - layout.skipTrailingRows).join('\n');
+}
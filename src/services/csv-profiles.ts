@@ -0,0 +1,271 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import Papa from 'papaparse';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { ToolError, formatZodIssues } from '../utils/errors.js';
+
+const DEFAULT_PROFILES_PATH = path.join(os.homedir(), '.maybe-finance-mcp', 'csv-profiles.json');
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const PatternSchema = z.string().min(1)
+  .refine(isValidPattern, { message: 'Invalid regular expression' });
+
+export const CsvFieldMappingSchema = z.object({
+  date: z.string().min(1),
+  amount: z.string().optional(),
+  description: z.string().optional(),
+  merchant: z.string().optional(),
+  category: z.string().optional(),
+  // The bank's id for each row, used to recognize rows imported before
+  reference: z.string().optional(),
+  // The reference never repeats, so it identifies a row without its date and amount
+  uniqueReference: z.boolean().optional(),
+  // Separate money-out and money-in columns instead of one signed amount
+  debitColumn: z.string().optional(),
+  creditColumn: z.string().optional(),
+  // A column saying which way the money went, for files with unsigned amounts
+  direction: z.object({
+    column: z.string().min(1),
+    debit: z.array(z.string()).min(1).describe("Values meaning money out"),
+    credit: z.array(z.string()).min(1).describe("Values meaning money in"),
+  }).optional(),
+  // How the amount column's sign reads when there is no direction column:
+  // most bank exports write expenses negative, many card exports positive
+  amountSign: z.enum(['expense_negative', 'expense_positive']).optional(),
+}).refine(mapping => mapping.amount || mapping.debitColumn || mapping.creditColumn, {
+  message: 'Map an amount column, or debit/credit columns',
+});
+
+export const CsvProfileSchema = z.object({
+  id: z.string().min(1).regex(/^[\w-]+$/, 'Use letters, digits, "_" or "-"'),
+  name: z.string().min(1),
+  detect: z.object({
+    headers: z.array(z.string().min(1)).optional().describe("Header names that must all be present"),
+    firstLine: PatternSchema.optional().describe("Regex for the first line, for files without headers"),
+    filename: PatternSchema.optional().describe("Regex for the export's file name"),
+  }),
+  delimiter: z.string().min(1).optional(),
+  // Column names for files without a header row
+  columns: z.array(z.string().min(1)).optional(),
+  dateFormat: z.string().optional().describe("date-fns format, e.g. yyyyMMdd"),
+  mapping: CsvFieldMappingSchema,
+  // Rows to leave out, e.g. declined card payments
+  skip: z.object({
+    column: z.string().min(1),
+    values: z.array(z.string()).min(1),
+  }).optional(),
+});
+
+const ProfileFileSchema = z.object({
+  version: z.literal(1).default(1),
+  profiles: z.array(CsvProfileSchema),
+});
+
+export type CsvFieldMapping = z.infer<typeof CsvFieldMappingSchema>;
+export type CsvProfile = z.infer<typeof CsvProfileSchema>;
+
+export interface LoadedProfile {
+  profile: CsvProfile;
+  builtIn: boolean;
+}
+
+export interface ProfileMatch {
+  profile: CsvProfile;
+  matchedBy: 'header' | 'firstLine' | 'filename' | 'explicit';
+  builtIn: boolean;
+}
+
+export const BUILT_IN_PROFILES: CsvProfile[] = [
+  {
+    id: 'ing-nl',
+    name: 'ING (Netherlands)',
+    detect: {
+      headers: ['Datum', 'Naam / Omschrijving', 'Af Bij', 'Bedrag (EUR)'],
+      filename: '^NL\\d{2}INGB\\d{10}_\\d{2}-\\d{2}-\\d{4}_\\d{2}-\\d{2}-\\d{4}\\.csv$',
+    },
+    dateFormat: 'yyyyMMdd',
+    mapping: {
+      date: 'Datum',
+      amount: 'Bedrag (EUR)',
+      description: 'Naam / Omschrijving',
+      merchant: 'Naam / Omschrijving',
+      direction: { column: 'Af Bij', debit: ['Af'], credit: ['Bij'] },
+    },
+  },
+  {
+    id: 'abn-amro',
+    name: 'ABN AMRO (TAB export)',
+    detect: {
+      firstLine: '^\\d{9,10}\\tEUR\\t\\d{8}\\t',
+      filename: '^TXT\\d+\\.TAB$',
+    },
+    delimiter: '\t',
+    columns: [
+      'Rekeningnummer', 'Muntsoort', 'Transactiedatum', 'Beginsaldo',
+      'Eindsaldo', 'Rentedatum', 'Transactiebedrag', 'Omschrijving',
+    ],
+    dateFormat: 'yyyyMMdd',
+    mapping: {
+      date: 'Transactiedatum',
+      amount: 'Transactiebedrag',
+      description: 'Omschrijving',
+    },
+  },
+  {
+    id: 'rabobank',
+    name: 'Rabobank',
+    detect: {
+      headers: ['IBAN/BBAN', 'Volgnr', 'Datum', 'Bedrag', 'Naam tegenpartij', 'Omschrijving-1'],
+      filename: '^CSV_[AO]_\\d{8}_\\d{6}\\.csv$',
+    },
+    dateFormat: 'yyyy-MM-dd',
+    mapping: {
+      date: 'Datum',
+      amount: 'Bedrag',
+      description: 'Omschrijving-1',
+      merchant: 'Naam tegenpartij',
+      reference: 'Volgnr',
+      uniqueReference: true,
+    },
+  },
+  {
+    id: 'bunq',
+    name: 'bunq',
+    detect: {
+      headers: ['Date', 'Interest Date', 'Amount', 'Account', 'Counterparty', 'Name', 'Description'],
+      filename: '^bunq-statement.*\\.csv$',
+    },
+    dateFormat: 'yyyy-MM-dd',
+    mapping: {
+      date: 'Date',
+      amount: 'Amount',
+      description: 'Description',
+      merchant: 'Name',
+    },
+  },
+  {
+    id: 'revolut',
+    name: 'Revolut',
+    detect: {
+      headers: ['Type', 'Product', 'Started Date', 'Completed Date', 'Description', 'Amount', 'Currency', 'State'],
+      filename: '^account-statement_.*\\.csv$',
+    },
+    dateFormat: 'yyyy-MM-dd HH:mm:ss',
+    mapping: {
+      date: 'Completed Date',
+      amount: 'Amount',
+      description: 'Description',
+      merchant: 'Description',
+    },
+    // Only completed payments moved money
+    skip: { column: 'State', values: ['PENDING', 'DECLINED', 'REVERTED', 'FAILED'] },
+  },
+];
+
+function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, '').trim().toLowerCase();
+}
+
+/**
+ * Find the profile for an export: user profiles before built-in ones, and
+ * within each, header names first, then the first line, then the file name
+ */
+export function detectProfile(
+  profiles: LoadedProfile[],
+  csvText: string,
+  filename?: string
+): ProfileMatch | null {
+  const firstLine = csvText.replace(/^\uFEFF/, '').split(/\r?\n/).find(line => line.trim()) || '';
+  const cells = (Papa.parse<string[]>(firstLine, { header: false }).data[0] || []).map(normalizeHeader);
+  const baseName = filename ? path.basename(filename) : undefined;
+
+  const checks: Array<[ProfileMatch['matchedBy'], (profile: CsvProfile) => boolean]> = [
+    ['header', profile => !!profile.detect.headers?.every(header => cells.includes(normalizeHeader(header)))],
+    ['firstLine', profile => !!profile.detect.firstLine && new RegExp(profile.detect.firstLine, 'i').test(firstLine)],
+    ['filename', profile => !!baseName && !!profile.detect.filename && new RegExp(profile.detect.filename, 'i').test(baseName)],
+  ];
+
+  for (const [matchedBy, matches] of checks) {
+    const found = profiles.find(({ profile }) => matches(profile));
+    if (found) return { ...found, matchedBy };
+  }
+  return null;
+}
+
+let profilesPath = DEFAULT_PROFILES_PATH;
+
+export function configureCsvProfiles(filePath?: string): void {
+  profilesPath = filePath || DEFAULT_PROFILES_PATH;
+}
+
+async function loadUserProfiles(): Promise<CsvProfile[]> {
+  const filePath = profilesPath;
+  const isYaml = /\.ya?ml$/i.test(filePath);
+
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  let raw: unknown;
+  try {
+    raw = isYaml ? YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ToolError(
+      `CSV profiles file ${filePath} is not valid ${isYaml ? 'YAML' : 'JSON'}: ${(error as Error).message}`,
+      'validation'
+    );
+  }
+
+  const parsed = ProfileFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ToolError(`CSV profiles file ${filePath} is invalid`, 'validation', undefined, formatZodIssues(parsed.error));
+  }
+  return parsed.data.profiles;
+}
+
+/**
+ * User profiles followed by the built-in ones. The file is re-read on every
+ * call so edits apply without a restart.
+ */
+export async function loadCsvProfiles(): Promise<LoadedProfile[]> {
+  const userProfiles = await loadUserProfiles();
+  return [
+    ...userProfiles.map(profile => ({ profile, builtIn: false })),
+    ...BUILT_IN_PROFILES.map(profile => ({ profile, builtIn: true })),
+  ];
+}
+
+/**
+ * Pick the profile for an import: the one named by `profileId`, else the one
+ * detected from the content or file name, else none
+ */
+export async function resolveCsvProfile(csvText: string, options: { profileId?: string; filename?: string }): Promise<ProfileMatch | null> {
+  const profiles = await loadCsvProfiles();
+
+  if (options.profileId) {
+    const found = profiles.find(({ profile }) => profile.id === options.profileId);
+    if (!found) {
+      throw new ToolError(
+        `Unknown CSV profile '${options.profileId}'. Available: ${profiles.map(p => p.profile.id).join(', ')}`,
+        'validation'
+      );
+    }
+    return { ...found, matchedBy: 'explicit' };
+  }
+
+  return detectProfile(profiles, csvText, options.filename);
+}
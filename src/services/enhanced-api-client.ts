@@ -1,43 +1,48 @@
 import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { ToolError, codeForStatus } from '../utils/errors.js';
+import { TieredCache, getSharedCache } from './cache.js';
 
-// Simple in-memory cache implementation
-class SimpleCache {
-  private cache: Map<string, { data: any; timestamp: number }> = new Map();
-  private ttl: number;
+export interface RateLimitQuota {
+  limit?: number;
+  remaining?: number;
+  resetInSeconds?: number;
+}
 
-  constructor(ttlSeconds: number = 300) {
-    this.ttl = ttlSeconds * 1000; // Convert to milliseconds
-  }
+export interface RateLimitState {
+  localTokens: number;
+  localLimitPerMinute: number;
+  serverLimit: number | null;
+  serverRemaining: number | null;
+  serverResetAt: string | null;
+  blockedUntil: string | null;
+}
 
-  get(key: string): any | null {
-    const item = this.cache.get(key);
-    if (!item) return null;
-    
-    if (Date.now() - item.timestamp > this.ttl) {
-      this.cache.delete(key);
-      return null;
-    }
-    
-    return item.data;
-  }
+// Writing to a resource also changes these cached resources
+const RELATED_RESOURCES: Record<string, string[]> = {
+  transactions: ['transactions', 'accounts'],
+};
 
-  set(key: string, data: any): void {
-    this.cache.set(key, { data, timestamp: Date.now() });
-  }
+// Longest we'll hold a request back before failing it as rate limited
+const MAX_RATE_LIMIT_WAIT_MS = 30000;
 
-  clear(): void {
-    this.cache.clear();
-  }
-}
+// Maybe counts an API key's limit per hour
+const SERVER_LIMIT_WINDOW_MS = 60 * 60 * 1000;
 
-// Simple rate limiter
+// Rate limiter: a local token bucket, tightened by the quota the server reports
 class RateLimiter {
+  private localLimitPerMinute: number;
   private tokens: number;
   private maxTokens: number;
   private refillRate: number;
   private lastRefill: number;
+  private serverLimit: number | null = null;
+  private serverRemaining: number | null = null;
+  private serverResetAt = 0;
+  private blockedUntil = 0;
 
   constructor(tokensPerMinute: number = 100) {
+    this.localLimitPerMinute = tokensPerMinute;
     this.maxTokens = tokensPerMinute;
     this.tokens = tokensPerMinute;
     this.refillRate = tokensPerMinute / 60000; // tokens per millisecond
@@ -45,6 +50,21 @@ class RateLimiter {
   }
 
   async waitForToken(): Promise<void> {
+    // Server told us to back off (Retry-After on a 429)
+    await this.waitUntil(this.blockedUntil);
+
+    // Server quota exhausted until its window resets
+    if (this.serverRemaining !== null) {
+      if (Date.now() >= this.serverResetAt) {
+        this.serverRemaining = null;
+      } else if (this.serverRemaining < 1) {
+        await this.waitUntil(this.serverResetAt);
+        this.serverRemaining = null;
+      } else {
+        this.serverRemaining -= 1;
+      }
+    }
+
     this.refill();
     
     if (this.tokens < 1) {
@@ -56,6 +76,58 @@ class RateLimiter {
     this.tokens -= 1;
   }
 
+  // Adopt the quota reported by the server (usage endpoint or X-RateLimit-* headers)
+  updateQuota(quota: RateLimitQuota): void {
+    if (quota.limit !== undefined && quota.limit > 0 && quota.limit !== this.serverLimit) {
+      this.serverLimit = quota.limit;
+      this.resize(quota.limit);
+    }
+    if (quota.remaining !== undefined && quota.resetInSeconds !== undefined) {
+      this.serverRemaining = quota.remaining;
+      this.serverResetAt = Date.now() + quota.resetInSeconds * 1000;
+    }
+  }
+
+  // Hold all requests until the given number of milliseconds has passed
+  pauseFor(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+
+  getState(): RateLimitState {
+    this.refill();
+    const hasServerQuota = this.serverRemaining !== null && Date.now() < this.serverResetAt;
+    return {
+      localTokens: Math.floor(this.tokens),
+      localLimitPerMinute: Math.round(this.refillRate * 60000 * 100) / 100,
+      serverLimit: this.serverLimit,
+      serverRemaining: hasServerQuota ? this.serverRemaining : null,
+      serverResetAt: hasServerQuota ? new Date(this.serverResetAt).toISOString() : null,
+      blockedUntil: this.blockedUntil > Date.now() ? new Date(this.blockedUntil).toISOString() : null,
+    };
+  }
+
+  private async waitUntil(timestamp: number): Promise<void> {
+    const waitTime = timestamp - Date.now();
+    if (waitTime <= 0) return;
+
+    if (waitTime > MAX_RATE_LIMIT_WAIT_MS) {
+      throw new ToolError(
+        `Rate limit exceeded - quota resets in ${Math.ceil(waitTime / 1000)}s`,
+        'rate_limited',
+        429
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, waitTime));
+  }
+
+  // Never burst past the server's limit, nor refill faster than it allows
+  private resize(serverLimit: number): void {
+    this.refill();
+    this.maxTokens = Math.min(this.localLimitPerMinute, serverLimit);
+    this.refillRate = Math.min(this.localLimitPerMinute / 60000, serverLimit / SERVER_LIMIT_WINDOW_MS);
+    this.tokens = Math.min(this.tokens, this.maxTokens);
+  }
+
   private refill(): void {
     const now = Date.now();
     const elapsed = now - this.lastRefill;
@@ -68,7 +140,10 @@ class RateLimiter {
 export class EnhancedMaybeFinanceAPI {
   private client: AxiosInstance;
   private rateLimiter: RateLimiter;
-  private cache: SimpleCache;
+  private cache: TieredCache;
+  private cacheTTL: number;
+  // Identifies the server and key without exposing the key
+  readonly clientId: string;
   private retryDelays = [1000, 2000, 4000]; // Exponential backoff
 
   constructor(
@@ -77,11 +152,20 @@ export class EnhancedMaybeFinanceAPI {
     options: {
       rateLimitPerMinute?: number;
       cacheTTLSeconds?: number;
+      cacheMaxEntries?: number;
+      cacheDir?: string;
       timeout?: number;
     } = {}
   ) {
     this.rateLimiter = new RateLimiter(options.rateLimitPerMinute || 100);
-    this.cache = new SimpleCache(options.cacheTTLSeconds || 300);
+    this.cacheTTL = (options.cacheTTLSeconds || 300) * 1000;
+    this.clientId = createHash('sha256').update(`${baseURL}:${apiKey}`).digest('hex').slice(0, 16);
+    // Namespace by server and key: sessions with different keys may share a cache directory,
+    // and sessions with the same key share one cache
+    this.cache = getSharedCache(`${this.clientId}:`, {
+      maxEntries: options.cacheMaxEntries || 500,
+      directory: options.cacheDir,
+    });
     
     this.client = axios.create({
       baseURL,
@@ -98,22 +182,41 @@ export class EnhancedMaybeFinanceAPI {
       return config;
     });
 
-    // Response interceptor for error handling
+    // Response interceptor for quota tracking and error handling
     this.client.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        this.trackQuota(response.headers);
+        return response;
+      },
       async (error: AxiosError) => {
         const config = error.config;
         if (!config) throw error;
 
+        if (error.response) {
+          this.trackQuota(error.response.headers);
+        }
+
+        // Honor the server's back-off on 429 instead of our fixed delays
+        let retryAfterMs: number | null = null;
+        if (error.response?.status === 429) {
+          retryAfterMs = this.getRetryAfterMs(error.response.headers);
+          if (retryAfterMs !== null) {
+            this.rateLimiter.pauseFor(retryAfterMs);
+          }
+        }
+
         // Check if we should retry
         const retryCount = (config as any).__retryCount || 0;
-        const shouldRetry = this.shouldRetry(error, retryCount);
+        const shouldRetry = this.shouldRetry(error, retryCount) &&
+          (retryAfterMs === null || retryAfterMs <= MAX_RATE_LIMIT_WAIT_MS);
         
         if (shouldRetry && retryCount < this.retryDelays.length) {
-          // Wait before retrying
-          await new Promise(resolve => 
-            setTimeout(resolve, this.retryDelays[retryCount])
-          );
+          // A Retry-After pause is waited out by the rate limiter; otherwise back off
+          if (retryAfterMs === null) {
+            await new Promise(resolve =>
+              setTimeout(resolve, this.retryDelays[retryCount])
+            );
+          }
           
           // Increment retry count
           (config as any).__retryCount = retryCount + 1;
@@ -123,11 +226,39 @@ export class EnhancedMaybeFinanceAPI {
         }
 
         // Format error message
-        throw this.formatError(error);
+        throw this.formatError(error, retryAfterMs);
       }
     );
   }
 
+  private trackQuota(headers: Record<string, any>): void {
+    const limit = parseHeaderNumber(headers['x-ratelimit-limit']);
+    const remaining = parseHeaderNumber(headers['x-ratelimit-remaining']);
+    const reset = parseHeaderNumber(headers['x-ratelimit-reset']);
+    if (limit === undefined && remaining === undefined) return;
+
+    this.rateLimiter.updateQuota({
+      limit,
+      remaining,
+      resetInSeconds: reset === undefined ? undefined : toSecondsFromNow(reset),
+    });
+  }
+
+  private getRetryAfterMs(headers: Record<string, any>): number | null {
+    const retryAfter = headers['retry-after'];
+    if (retryAfter !== undefined) {
+      const seconds = parseHeaderNumber(retryAfter);
+      if (seconds !== undefined) return seconds * 1000;
+
+      // Retry-After may also be an HTTP date
+      const date = Date.parse(String(retryAfter));
+      if (!isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    const reset = parseHeaderNumber(headers['x-ratelimit-reset']);
+    return reset === undefined ? null : toSecondsFromNow(reset) * 1000;
+  }
+
   private shouldRetry(error: AxiosError, retryCount: number): boolean {
     if (retryCount >= this.retryDelays.length) return false;
     
@@ -142,20 +273,24 @@ export class EnhancedMaybeFinanceAPI {
            status >= 500;    // Server errors
   }
 
-  private formatError(error: AxiosError): Error {
+  private formatError(error: AxiosError, retryAfterMs: number | null = null): ToolError {
     const status = error.response?.status;
     const data = error.response?.data as any;
     
     let message = 'API request failed';
     
-    if (status === 401) {
+    if (!error.response) {
+      message = `Maybe Finance API unreachable: ${error.message}`;
+    } else if (status === 401) {
       message = 'Invalid API key or authentication failed';
     } else if (status === 403) {
       message = 'Access forbidden - check API permissions';
     } else if (status === 404) {
       message = 'Resource not found';
     } else if (status === 429) {
-      message = 'Rate limit exceeded - please try again later';
+      message = retryAfterMs !== null
+        ? `Rate limit exceeded - retry after ${Math.ceil(retryAfterMs / 1000)}s`
+        : 'Rate limit exceeded - please try again later';
     } else if (status === 422) {
       message = `Validation error: ${data?.message || 'Invalid request data'}`;
     } else if (data?.message) {
@@ -164,61 +299,112 @@ export class EnhancedMaybeFinanceAPI {
       message = error.message;
     }
     
-    const enhancedError = new Error(`[${status || 'Network'}] ${message}`);
-    (enhancedError as any).status = status;
-    (enhancedError as any).originalError = error;
-    
-    return enhancedError;
+    return new ToolError(message, codeForStatus(status), status);
   }
 
   private getCacheKey(url: string, params?: any): string {
     return `${url}:${JSON.stringify(params || {})}`;
   }
 
-  // Enhanced GET with caching
-  async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  // Enhanced GET with caching. Expired entries that carry an ETag are
+  // revalidated with If-None-Match instead of being downloaded again.
+  async get<T>(url: string, config?: AxiosRequestConfig, options: { skipCache?: boolean } = {}): Promise<T> {
+    if (options.skipCache) {
+      const response = await this.client.get<T>(url, config);
+      return response.data;
+    }
+
     const cacheKey = this.getCacheKey(url, config?.params);
     
     // Check cache first
-    const cached = this.cache.get(cacheKey);
-    if (cached) {
-      return cached;
+    const cached = await this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.storedAt <= this.cacheTTL) {
+      return cached.data as T;
     }
     
-    // Make request
-    const response = await this.client.get<T>(url, config);
+    // Make request, conditional if we have a validator
+    const response = await this.client.get<T>(url, {
+      ...config,
+      headers: {
+        ...config?.headers,
+        ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}),
+      },
+      validateStatus: (status) => (status >= 200 && status < 300) || (status === 304 && !!cached),
+    });
+
+    if (response.status === 304 && cached) {
+      await this.cache.set(cacheKey, { ...cached, storedAt: Date.now() });
+      return cached.data as T;
+    }
     
     // Cache successful responses
     if (response.status === 200) {
-      this.cache.set(cacheKey, response.data);
+      await this.cache.set(cacheKey, {
+        data: response.data,
+        etag: response.headers['etag'] || undefined,
+        storedAt: Date.now(),
+      });
     }
     
     return response.data;
   }
 
-  // Standard methods without caching
+  // Writes invalidate the cached resource they touch
   async post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
     const response = await this.client.post<T>(url, data, config);
+    await this.invalidateFor(url);
     return response.data;
   }
 
   async put<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
     const response = await this.client.put<T>(url, data, config);
+    await this.invalidateFor(url);
     return response.data;
   }
 
   async delete<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
     const response = await this.client.delete<T>(url, config);
+    await this.invalidateFor(url);
     return response.data;
   }
 
   async patch<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
     const response = await this.client.patch<T>(url, data, config);
+    await this.invalidateFor(url);
     return response.data;
   }
 
+  // Drop every cached response for the written resource, e.g. /transactions/123 -> /transactions
+  private async invalidateFor(url: string): Promise<void> {
+    const resource = url.replace(/^\/+/, '').split(/[/?]/)[0];
+    const affected = RELATED_RESOURCES[resource] || [resource];
+    for (const name of affected) {
+      await this.cache.invalidate(`/${name}`);
+    }
+  }
+
   // Clear cache
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
   }
+
+  // Feed a server-reported quota (e.g. from the usage endpoint) into the limiter
+  updateRateLimit(quota: RateLimitQuota): void {
+    this.rateLimiter.updateQuota(quota);
+  }
+
+  getRateLimitState(): RateLimitState {
+    return this.rateLimiter.getState();
+  }
+}
+
+function parseHeaderNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : undefined;
+}
+
+// X-RateLimit-Reset is either seconds until reset or an epoch timestamp
+function toSecondsFromNow(reset: number): number {
+  return reset > 1e9 ? Math.max(0, reset - Date.now() / 1000) : reset;
 }
\ No newline at end of file
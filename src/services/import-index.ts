@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const DEFAULT_INDEX_PATH = path.join(os.homedir(), '.maybe-finance-mcp', 'import-index.jsonl');
+
+/**
+ * One imported row: the transaction it became in Maybe
+ */
+export interface ImportIndexEntry {
+  fingerprint: string;
+  accountId: string;
+  transactionId: string;
+  importedAt: string;
+}
+
+/**
+ * Lowercase letters and digits only, so "ALBERT HEIJN 1234" and
+ * "Albert Heijn  1234." compare equal
+ */
+export function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Identify an imported row across files. A bank reference the format
+ * guarantees unique identifies the row on its own. Otherwise the key is the
+ * booking date, the amount and the reference or else the normalized
+ * counterparty, plus which occurrence of that combination in the file it is,
+ * so two identical coffees on one day stay two transactions.
+ */
+export function importFingerprint(
+  accountId: string,
+  row: {
+    reference?: string;
+    uniqueReference?: boolean;
+    date: string;
+    amount: number;
+    counterparty: string;
+    occurrence: number;
+  }
+): string {
+  const reference = row.reference?.trim();
+  const key = reference && row.uniqueReference
+    ? `ref:${reference}`
+    : `${row.date}:${row.amount.toFixed(2)}:${reference ? `ref:${reference}` : normalizeName(row.counterparty)}:${row.occurrence}`;
+  return createHash('sha256').update(`${accountId}:${key}`).digest('hex');
+}
+
+/**
+ * Append-only JSON Lines index of the rows imports have created, so that
+ * importing an overlapping or identical file again skips them exactly
+ */
+export class ImportIndex {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  // Appends are serialized so lines from concurrent creates never interleave
+  record(entry: Omit<ImportIndexEntry, 'importedAt'>): Promise<void> {
+    const line = `${JSON.stringify({ ...entry, importedAt: new Date().toISOString() })}\n`;
+    const run = async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, line);
+    };
+
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Transaction IDs by fingerprint for one account; the latest import of a
+   * fingerprint wins
+   */
+  async load(accountId: string): Promise<Map<string, string>> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+      throw error;
+    }
+
+    const fingerprints = new Map<string, string>();
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry: ImportIndexEntry = JSON.parse(line);
+        if (entry.accountId === accountId) fingerprints.set(entry.fingerprint, entry.transactionId);
+      } catch {
+        // A crash mid-append can leave a partial last line; it recorded nothing usable
+        console.error(`[Import Index Error] Skipping unreadable line in ${this.filePath}`);
+      }
+    }
+    return fingerprints;
+  }
+}
+
+let index: ImportIndex | null = null;
+
+export function configureImportIndex(filePath?: string): void {
+  index = new ImportIndex(filePath || DEFAULT_INDEX_PATH);
+}
+
+export function getImportIndex(): ImportIndex {
+  if (!index) configureImportIndex();
+  return index!;
+}
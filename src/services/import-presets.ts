@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { CSV_CHARSETS } from './csv-format.js';
+import { CsvFieldMappingSchema } from './csv-profiles.js';
+import { ToolError, formatZodIssues } from '../utils/errors.js';
+
+const DEFAULT_PRESETS_PATH = path.join(os.homedir(), '.maybe-finance-mcp', 'import-presets.json');
+
+/**
+ * How an account's CSV exports are read, saved once so later imports into
+ * the account need no mapping
+ */
+export const ImportPresetSchema = z.object({
+  accountId: z.string().min(1),
+  mapping: CsvFieldMappingSchema.optional(),
+  dateFormat: z.string().optional().describe("date-fns format, e.g. dd-MM-yyyy"),
+  delimiter: z.string().min(1).optional(),
+  charset: z.enum(CSV_CHARSETS).optional(),
+  skipRows: z.number().int().min(0).optional(),
+  skipTrailingRows: z.number().int().min(0).optional(),
+  hasHeader: z.boolean().optional(),
+  // Overrides the mapping's sign convention, so it also applies to profile and detected mappings
+  amountSign: z.enum(['expense_negative', 'expense_positive']).optional(),
+  // Category for rows the file gives none
+  defaultCategory: z.string().min(1).optional(),
+  updatedAt: z.string(),
+});
+
+const PresetFileSchema = z.object({
+  version: z.literal(1).default(1),
+  presets: z.array(ImportPresetSchema),
+});
+
+export type ImportPreset = z.infer<typeof ImportPresetSchema>;
+
+/**
+ * Import presets kept in a JSON file, one per account
+ */
+export class ImportPresetStore {
+  // Changes are applied one at a time so concurrent calls can't drop each other's edits
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  async list(): Promise<ImportPreset[]> {
+    return this.load();
+  }
+
+  async get(accountId: string): Promise<ImportPreset | undefined> {
+    return (await this.load()).find(preset => preset.accountId === accountId);
+  }
+
+  // Replaces the account's preset as a whole
+  save(preset: Omit<ImportPreset, 'updatedAt'>): Promise<ImportPreset> {
+    return this.change(presets => {
+      const saved = { ...preset, updatedAt: new Date().toISOString() };
+      return {
+        presets: [...presets.filter(p => p.accountId !== preset.accountId), saved],
+        result: saved,
+      };
+    });
+  }
+
+  delete(accountId: string): Promise<ImportPreset> {
+    return this.change(presets => {
+      const removed = presets.find(p => p.accountId === accountId);
+      if (!removed) {
+        throw new ToolError(`No import preset for account '${accountId}'`, 'not_found');
+      }
+      return { presets: presets.filter(p => p.accountId !== accountId), result: removed };
+    });
+  }
+
+  private change<T>(plan: (presets: ImportPreset[]) => { presets: ImportPreset[]; result: T }): Promise<T> {
+    const run = async () => {
+      const { presets, result } = plan(await this.load());
+      await this.write(presets);
+      return result;
+    };
+
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<ImportPreset[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (error) {
+      throw new ToolError(`Import presets file ${this.filePath} is not valid JSON: ${(error as Error).message}`, 'validation');
+    }
+
+    const parsed = PresetFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = formatZodIssues(parsed.error);
+      throw new ToolError(
+        `Import presets file ${this.filePath} is invalid: ${issues.map(i => `${i.path}: ${i.message}`).join('; ')}`,
+        'validation',
+        undefined,
+        issues
+      );
+    }
+
+    return parsed.data.presets;
+  }
+
+  private async write(presets: ImportPreset[]): Promise<void> {
+    const text = `${JSON.stringify({ version: 1, presets }, null, 2)}\n`;
+
+    // Write to a temporary file first so a crash never leaves half a file
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temporary = `${this.filePath}.tmp`;
+    await fs.writeFile(temporary, text);
+    await fs.rename(temporary, this.filePath);
+  }
+}
+
+let presetStore: ImportPresetStore | null = null;
+
+export function configureImportPresets(filePath?: string): void {
+  presetStore = new ImportPresetStore(filePath || DEFAULT_PRESETS_PATH);
+}
+
+export function getImportPresets(): ImportPresetStore {
+  if (!presetStore) configureImportPresets();
+  return presetStore!;
+}
@@ -0,0 +1,150 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Transaction } from './api-client.js';
+import { ToolError } from '../utils/errors.js';
+
+const DEFAULT_JOURNAL_PATH = path.join(os.homedir(), '.maybe-finance-mcp', 'operations.jsonl');
+
+// The transaction fields bulk tools change and undo restores
+export type JournaledFields = Pick<Transaction, 'category'>;
+
+/**
+ * One transaction write. All entries of a tool call share its operationId.
+ */
+export interface JournalEntry {
+  operationId: string;
+  tool: string;
+  recordedAt: string;
+  transactionId: string;
+  before: JournaledFields;
+  after: JournaledFields;
+  // Set on entries written by undo_operation
+  undoes?: string;
+}
+
+export interface OperationSummary {
+  operationId: string;
+  tool: string;
+  startedAt: string;
+  finishedAt: string;
+  transactions: number;
+  undoes?: string;
+  undoneBy?: string;
+}
+
+/**
+ * Append-only JSON Lines log of transaction writes made by bulk tools, so a
+ * whole batch can be reviewed and reverted later. Entries are never rewritten;
+ * an undo is itself an operation that points at the one it reverts.
+ */
+export class OperationJournal {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  // Appends are serialized so lines from concurrent writes never interleave
+  record(entry: Omit<JournalEntry, 'recordedAt'>): Promise<void> {
+    const line = `${JSON.stringify({ ...entry, recordedAt: new Date().toISOString() })}\n`;
+    const run = async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, line);
+    };
+
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async entries(): Promise<JournalEntry[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A crash mid-append can leave a partial last line; it recorded nothing usable
+        console.error(`[Journal Error] Skipping unreadable line in ${this.filePath}`);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Operations newest first, each with the undo operation that reverted it
+   */
+  async listOperations(): Promise<OperationSummary[]> {
+    const operations = new Map<string, OperationSummary>();
+    const transactions = new Map<string, Set<string>>();
+
+    for (const entry of await this.entries()) {
+      const operation = operations.get(entry.operationId);
+      if (operation) {
+        operation.finishedAt = entry.recordedAt;
+      } else {
+        operations.set(entry.operationId, {
+          operationId: entry.operationId,
+          tool: entry.tool,
+          startedAt: entry.recordedAt,
+          finishedAt: entry.recordedAt,
+          transactions: 0,
+          undoes: entry.undoes,
+        });
+        transactions.set(entry.operationId, new Set());
+      }
+      transactions.get(entry.operationId)!.add(entry.transactionId);
+    }
+
+    for (const operation of operations.values()) {
+      operation.transactions = transactions.get(operation.operationId)!.size;
+      if (operation.undoes) {
+        const undone = operations.get(operation.undoes);
+        if (undone) undone.undoneBy = operation.operationId;
+      }
+    }
+
+    return Array.from(operations.values()).reverse();
+  }
+
+  /**
+   * The net change an operation made to each transaction: the value before
+   * its first write and after its last
+   */
+  async getChanges(operationId: string): Promise<Array<{ transactionId: string; before: JournaledFields; after: JournaledFields }>> {
+    const changes = new Map<string, { transactionId: string; before: JournaledFields; after: JournaledFields }>();
+
+    for (const entry of await this.entries()) {
+      if (entry.operationId !== operationId) continue;
+      const existing = changes.get(entry.transactionId);
+      if (existing) {
+        existing.after = entry.after;
+      } else {
+        changes.set(entry.transactionId, { transactionId: entry.transactionId, before: entry.before, after: entry.after });
+      }
+    }
+
+    if (changes.size === 0) {
+      throw new ToolError(`Operation '${operationId}' not found`, 'not_found');
+    }
+    return Array.from(changes.values());
+  }
+}
+
+let journal: OperationJournal | null = null;
+
+export function configureJournal(filePath?: string): void {
+  journal = new OperationJournal(filePath || DEFAULT_JOURNAL_PATH);
+}
+
+export function getJournal(): OperationJournal {
+  if (!journal) configureJournal();
+  return journal!;
+}
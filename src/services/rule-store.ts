@@ -0,0 +1,224 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { CategorizationEngine, CategorizationRule, DEFAULT_RULES } from './categorization-engine.js';
+import { ToolError, formatZodIssues } from '../utils/errors.js';
+
+const DEFAULT_RULES_PATH = path.join(os.homedir(), '.maybe-finance-mcp', 'categorization-rules.json');
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const PatternSchema = z.string().min(1)
+  .refine(isValidPattern, { message: 'Invalid regular expression' });
+
+export const RuleConditionsSchema = z.object({
+  merchantPatterns: z.array(PatternSchema).optional()
+    .describe("Case-insensitive regex patterns matched against the merchant or name"),
+  descriptionPatterns: z.array(PatternSchema).optional()
+    .describe("Case-insensitive regex patterns matched against the description"),
+  amountRange: z.object({
+    min: z.number().optional(),
+    max: z.number().optional(),
+  }).optional().describe("Absolute amount bounds"),
+  dayOfWeek: z.array(z.number().int().min(0).max(6)).optional().describe("Days of the week (0 = Sunday)"),
+  dayOfMonth: z.array(z.number().int().min(1).max(31)).optional().describe("Days of the month"),
+  isRecurring: z.boolean().optional().describe("Only match recurring payments"),
+  accountType: z.array(z.string()).optional().describe("Account types the rule applies to"),
+});
+
+export const StoredRuleSchema = z.object({
+  id: z.string().min(1).regex(/^[\w-]+$/, 'Use letters, digits, "_" or "-"'),
+  name: z.string().min(1),
+  category: z.string().min(1),
+  priority: z.number().int().min(0).max(1000),
+  conditions: RuleConditionsSchema,
+});
+
+const RuleFileSchema = z.object({
+  version: z.literal(1).default(1),
+  rules: z.array(StoredRuleSchema),
+}).superRefine((file, ctx) => {
+  const seen = new Set<string>();
+  file.rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `Duplicate rule id '${rule.id}'` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+export type StoredRule = z.infer<typeof StoredRuleSchema>;
+
+export function toEngineRule(rule: StoredRule): CategorizationRule {
+  return {
+    ...rule,
+    conditions: {
+      ...rule.conditions,
+      merchantPatterns: rule.conditions.merchantPatterns?.map(p => new RegExp(p, 'i')),
+      descriptionPatterns: rule.conditions.descriptionPatterns?.map(p => new RegExp(p, 'i')),
+    },
+  };
+}
+
+export function toStoredRule(rule: CategorizationRule): StoredRule {
+  return {
+    ...rule,
+    conditions: {
+      ...rule.conditions,
+      merchantPatterns: rule.conditions.merchantPatterns?.map(r => r.source),
+      descriptionPatterns: rule.conditions.descriptionPatterns?.map(r => r.source),
+    },
+  };
+}
+
+/**
+ * Categorization rules kept in a JSON or YAML file (chosen by extension).
+ * Until the file exists the built-in rules apply; the first change writes
+ * them out together with the change so they can be edited as well.
+ */
+export class RuleStore {
+  private engine: Promise<CategorizationEngine> | null = null;
+  // Changes are applied one at a time so concurrent calls can't drop each other's edits
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  getEngine(): Promise<CategorizationEngine> {
+    if (!this.engine) {
+      this.engine = this.load().then(rules => new CategorizationEngine(rules));
+      // Retry on the next call if the file couldn't be read
+      this.engine.catch(() => { this.engine = null; });
+    }
+    return this.engine;
+  }
+
+  async exists(): Promise<boolean> {
+    return fs.access(this.filePath).then(() => true, () => false);
+  }
+
+  addRule(rule: StoredRule): Promise<CategorizationRule> {
+    return this.change(engine => {
+      if (engine.getRules().some(r => r.id === rule.id)) {
+        throw new ToolError(`Rule '${rule.id}' already exists`, 'validation');
+      }
+      const added = toEngineRule(rule);
+      return { rules: [...engine.getRules(), added], apply: () => engine.addRule(added), result: added };
+    });
+  }
+
+  updateRule(ruleId: string, changes: Partial<Omit<StoredRule, 'id'>>): Promise<CategorizationRule> {
+    return this.change(engine => {
+      const existing = engine.getRules().find(r => r.id === ruleId);
+      if (!existing) {
+        throw new ToolError(`Rule '${ruleId}' not found`, 'not_found');
+      }
+      const defined = Object.entries(changes).filter(([, value]) => value !== undefined);
+      const updated = toEngineRule({ ...toStoredRule(existing), ...Object.fromEntries(defined), id: ruleId });
+      return {
+        rules: engine.getRules().map(r => (r.id === ruleId ? updated : r)),
+        apply: () => engine.updateRule(updated),
+        result: updated,
+      };
+    });
+  }
+
+  removeRule(ruleId: string): Promise<CategorizationRule> {
+    return this.change(engine => {
+      const removed = engine.getRules().find(r => r.id === ruleId);
+      if (!removed) {
+        throw new ToolError(`Rule '${ruleId}' not found`, 'not_found');
+      }
+      return {
+        rules: engine.getRules().filter(r => r.id !== ruleId),
+        apply: () => engine.removeRule(ruleId),
+        result: removed,
+      };
+    });
+  }
+
+  // Write the new rule set first and only then touch the engine, so a failed
+  // write leaves memory and disk in agreement
+  private change<T>(
+    plan: (engine: CategorizationEngine) => { rules: CategorizationRule[]; apply: () => void; result: T }
+  ): Promise<T> {
+    const run = async () => {
+      const engine = await this.getEngine();
+      const { rules, apply, result } = plan(engine);
+      await this.save(rules);
+      apply();
+      return result;
+    };
+
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<CategorizationRule[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return DEFAULT_RULES;
+      throw error;
+    }
+
+    let raw: unknown;
+    try {
+      raw = this.isYaml() ? YAML.parse(text) : JSON.parse(text);
+    } catch (error) {
+      throw new ToolError(
+        `Rules file ${this.filePath} is not valid ${this.isYaml() ? 'YAML' : 'JSON'}: ${(error as Error).message}`,
+        'validation'
+      );
+    }
+
+    const parsed = RuleFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = formatZodIssues(parsed.error);
+      throw new ToolError(
+        `Rules file ${this.filePath} is invalid: ${issues.map(i => `${i.path}: ${i.message}`).join('; ')}`,
+        'validation',
+        undefined,
+        issues
+      );
+    }
+
+    return parsed.data.rules.map(toEngineRule);
+  }
+
+  private async save(rules: CategorizationRule[]): Promise<void> {
+    const file = { version: 1, rules: rules.map(toStoredRule) };
+    const text = this.isYaml() ? YAML.stringify(file) : `${JSON.stringify(file, null, 2)}\n`;
+
+    // Write to a temporary file first so a crash never leaves half a rule set
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temporary = `${this.filePath}.tmp`;
+    await fs.writeFile(temporary, text);
+    await fs.rename(temporary, this.filePath);
+  }
+
+  private isYaml(): boolean {
+    return /\.ya?ml$/i.test(this.filePath);
+  }
+}
+
+let ruleStore: RuleStore | null = null;
+
+export function configureRuleStore(filePath?: string): void {
+  ruleStore = new RuleStore(filePath || DEFAULT_RULES_PATH);
+}
+
+export function getRuleStore(): RuleStore {
+  if (!ruleStore) configureRuleStore();
+  return ruleStore!;
+}
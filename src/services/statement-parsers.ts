@@ -0,0 +1,353 @@
+import { XMLParser } from 'fast-xml-parser';
+import path from 'path';
+import { ToolError } from '../utils/errors.js';
+import { parseAmount } from '../utils/parsers.js';
+
+export type StatementFormat = 'ofx' | 'camt.052' | 'camt.053' | 'mt940';
+
+/**
+ * One booked (or pending) movement on a bank statement, whatever the format.
+ * Amounts are negative for money out.
+ */
+export interface StatementEntry {
+  // 1-based position in the file
+  index: number;
+  bookingDate: string;
+  valueDate?: string;
+  amount: number;
+  currency?: string;
+  counterpartyName?: string;
+  counterpartyIban?: string;
+  endToEndId?: string;
+  // The bank's own id for the entry (OFX FITID, CAMT AcctSvcrRef, MT940 bank or customer reference)
+  reference?: string;
+  // Set when the reference can't repeat; MT940 references can
+  uniqueReference: boolean;
+  description?: string;
+  pending: boolean;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  // Account the statement is for, usually an IBAN
+  account?: string;
+  entries: StatementEntry[];
+}
+
+// Placeholder banks put in the end-to-end id field when the payer gave none
+const NO_END_TO_END_ID = 'NOTPROVIDED';
+
+export function detectStatementFormat(content: string, filename?: string): 'ofx' | 'camt' | null {
+  const head = content.slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (/camt\.05[23]|<(\w+:)?BkToCstmr(Stmt|AcctRpt)\b/.test(head)) return 'camt';
+
+  const extension = filename ? path.extname(filename).toLowerCase() : '';
+  if (extension === '.ofx' || extension === '.qfx') return 'ofx';
+  if (extension === '.xml') return 'camt';
+  return null;
+}
+
+/**
+ * Read a statement in the given format, or the one detected from its content
+ * and file name
+ */
+export function parseStatement(content: string, options: { format?: 'ofx' | 'camt'; filename?: string } = {}): ParsedStatement {
+  const format = options.format ?? detectStatementFormat(content, options.filename);
+  if (format === 'ofx') return parseOfx(content);
+  if (format === 'camt') return parseCamt(content);
+  throw new ToolError('Unrecognized statement format; expected OFX/QFX or CAMT.052/CAMT.053', 'validation');
+}
+
+// OFX dates look like 20240115, 20240115120000 or 20240115120000.000[-5:EST]
+function ofxDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+// Value of a leaf element. OFX 1.x is SGML and leaves these unclosed, so read up to the next tag.
+function ofxField(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * OFX 1.x (SGML) and 2.x (XML) statements, including Quicken's QFX
+ */
+export function parseOfx(content: string): ParsedStatement {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  if (blocks.length === 0 && !/<BANKTRANLIST>/i.test(content)) {
+    throw new ToolError('OFX file has no transaction list', 'validation');
+  }
+
+  const entries = blocks.map((block, i): StatementEntry => {
+    const bookingDate = ofxDate(ofxField(block, 'DTPOSTED'));
+    const amount = ofxField(block, 'TRNAMT');
+    if (!bookingDate || !amount) {
+      throw new ToolError(`OFX transaction ${i + 1} is missing DTPOSTED or TRNAMT`, 'validation');
+    }
+
+    const name = ofxField(block, 'NAME');
+    const memo = ofxField(block, 'MEMO');
+    return {
+      index: i + 1,
+      bookingDate,
+      // DTUSER is when the payment was made, DTPOSTED when the bank booked it
+      valueDate: ofxDate(ofxField(block, 'DTUSER')),
+      amount: parseAmount(amount),
+      currency: ofxField(block, 'CURRENCY'),
+      counterpartyName: name,
+      counterpartyIban: ofxField(block.match(/<(BANKACCTTO|CCACCTTO)>[\s\S]*/i)?.[0] ?? '', 'ACCTID'),
+      reference: ofxField(block, 'FITID'),
+      uniqueReference: true,
+      description: memo && memo !== name ? memo : undefined,
+      pending: false,
+    };
+  });
+
+  return {
+    format: 'ofx',
+    account: ofxField(content.match(/<(BANKACCTFROM|CCACCTFROM)>[\s\S]*/i)?.[0] ?? '', 'ACCTID'),
+    entries,
+  };
+}
+
+const camtParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  // Keep ids and IBANs as written rather than turning them into numbers
+  parseTagValue: false,
+  isArray: (name) => ['Stmt', 'Rpt', 'Ntry', 'NtryDtls', 'TxDtls', 'Ustrd'].includes(name),
+});
+
+// Element text, whether or not the element had attributes
+function text(node: any): string | undefined {
+  const value = typeof node === 'object' && node !== null ? node['#text'] : node;
+  return value === undefined || value === null || value === '' ? undefined : String(value).trim();
+}
+
+// Dates are <Dt>2024-01-15</Dt> or <DtTm>2024-01-15T10:00:00</DtTm>
+function camtDate(node: any): string | undefined {
+  return (text(node?.Dt) ?? text(node?.DtTm))?.slice(0, 10);
+}
+
+// Party names sit directly under the party, or under Pty since the 2019 schemas
+function partyName(party: any): string | undefined {
+  return text(party?.Nm) ?? text(party?.Pty?.Nm);
+}
+
+function accountIban(account: any): string | undefined {
+  const id = account?.Id ?? account?.Pty?.Id;
+  return text(id?.IBAN) ?? text(id?.Othr?.Id);
+}
+
+/**
+ * ISO 20022 end-of-day statements (camt.053) and intraday reports (camt.052).
+ * Each entry becomes one transaction; for batch bookings the details of the
+ * first transaction in the batch describe it.
+ */
+export function parseCamt(content: string): ParsedStatement {
+  let document: any;
+  try {
+    document = camtParser.parse(content).Document;
+  } catch (error) {
+    throw new ToolError(`CAMT file is not valid XML: ${(error as Error).message}`, 'validation');
+  }
+
+  const format: StatementFormat | null = document?.BkToCstmrStmt ? 'camt.053' : document?.BkToCstmrAcctRpt ? 'camt.052' : null;
+  if (!format) {
+    throw new ToolError('XML file is not a CAMT.053 statement or CAMT.052 report', 'validation');
+  }
+  const statements: any[] = format === 'camt.053' ? document.BkToCstmrStmt.Stmt || [] : document.BkToCstmrAcctRpt.Rpt || [];
+
+  const entries: StatementEntry[] = [];
+  for (const statement of statements) {
+    for (const entry of statement.Ntry || []) {
+      const index = entries.length + 1;
+      const bookingDate = camtDate(entry.BookgDt) ?? camtDate(entry.ValDt);
+      const amount = text(entry.Amt);
+      if (!bookingDate || !amount) {
+        throw new ToolError(`CAMT entry ${index} is missing its date or amount`, 'validation');
+      }
+
+      const isDebit = text(entry.CdtDbtInd) === 'DBIT';
+      const details = entry.NtryDtls?.[0]?.TxDtls?.[0] ?? {};
+      const parties = details.RltdPties ?? {};
+      // The other side of the payment: who was paid for money out, who paid for money in
+      const counterparty = isDebit ? parties.Cdtr : parties.Dbtr;
+      const counterpartyAccount = isDebit ? parties.CdtrAcct : parties.DbtrAcct;
+      const endToEndId = text(details.Refs?.EndToEndId);
+      const remittance = (details.RmtInf?.Ustrd || []).map(text).filter(Boolean).join(' ');
+
+      entries.push({
+        index,
+        bookingDate,
+        valueDate: camtDate(entry.ValDt),
+        amount: isDebit ? -Math.abs(parseAmount(amount)) : Math.abs(parseAmount(amount)),
+        currency: entry.Amt?.['@_Ccy'],
+        counterpartyName: partyName(counterparty),
+        counterpartyIban: accountIban(counterpartyAccount),
+        endToEndId: endToEndId && endToEndId !== NO_END_TO_END_ID ? endToEndId : undefined,
+        reference: text(entry.AcctSvcrRef) ?? text(details.Refs?.AcctSvcrRef),
+        uniqueReference: true,
+        description: remittance || text(details.AddtlTxInf) || text(entry.AddtlNtryInf),
+        // Sts is a plain code before the 2019 schemas and <Sts><Cd> after
+        pending: (text(entry.Sts) ?? text(entry.Sts?.Cd)) === 'PDNG',
+      });
+    }
+  }
+
+  return { format, account: accountIban(statements[0]?.Acct), entries };
+}
+
+// :61:<value date YYMMDD>[<booking date MMDD>]<R?C|D>[funds code]<amount>[N|F|S<type>]<customer ref>[//<bank ref>]
+const MT940_STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+(?:,\d*)?)(?:[NFS][A-Z0-9]{3})?([^/\n]*)(?:\/\/([^\n]*))?/;
+
+// Subfield codes of structured :86: descriptions (Dutch SEPA layout used by ING, Rabobank and ABN AMRO)
+const MT940_SUBFIELDS = new Set([
+  'TRTP', 'EREF', 'IBAN', 'BIC', 'NAME', 'REMI', 'CNTP', 'ORDP', 'BENM', 'ULTC', 'ULTD', 'ULTB',
+  'MARF', 'CSID', 'PREF', 'RTRN', 'ISDT', 'ADDR', 'ID', 'PURP',
+]);
+
+/**
+ * Split a message into its :tag: fields. Continuation lines belong to the
+ * field before them; "-" ends a statement, so text after it (bank headers
+ * between statements) is dropped.
+ */
+function mt940Fields(content: string): Array<{ tag: string; lines: string[] }> {
+  const fields: Array<{ tag: string; lines: string[] }> = [];
+  let current: { tag: string; lines: string[] } | null = null;
+
+  for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      current = { tag: match[1], lines: [match[2]] };
+      fields.push(current);
+    } else if (/^-\}?\s*$/.test(line) || line.startsWith('{')) {
+      current = null;
+    } else if (current && line.trim()) {
+      current.lines.push(line);
+    }
+  }
+  return fields;
+}
+
+function mt940Date(year: string, month: string, day: string): string {
+  return `20${year}-${month}-${day}`;
+}
+
+/**
+ * Read a :86: description. Structured ones ("/NAME/Albert Heijn/REMI/...")
+ * become subfields; anything else is free text.
+ */
+function parseMt940Description(lines: string[]): { subfields: Map<string, string[]>; text?: string } {
+  const subfields = new Map<string, string[]>();
+  if (!lines[0].startsWith('/')) {
+    return { subfields, text: lines.map(line => line.trim()).join(' ').replace(/\s+/g, ' ') || undefined };
+  }
+
+  // Structured descriptions wrap at a fixed width, often mid-word
+  let key: string | null = null;
+  for (const part of lines.join('').split('/')) {
+    if (MT940_SUBFIELDS.has(part)) {
+      key = part;
+      subfields.set(key, []);
+    } else if (key) {
+      subfields.get(key)!.push(part);
+    }
+  }
+  return { subfields };
+}
+
+// Unstructured remittance is /REMI/USTD//text/, structured /REMI/STRD/CUR/reference/
+function mt940Remittance(values: string[] | undefined): string | undefined {
+  if (!values) return undefined;
+  const parts = values[0] === 'USTD' || values[0] === 'STRD' ? values.slice(2) : values;
+  return parts.join('/').replace(/\/+$/, '').trim() || undefined;
+}
+
+/**
+ * SWIFT MT940 customer statements (.sta, .940), with the structured :86:
+ * descriptions Dutch banks write
+ */
+export function parseMt940(content: string): ParsedStatement {
+  const fields = mt940Fields(content);
+  if (!fields.some(field => field.tag === '61')) {
+    throw new ToolError('MT940 file has no :61: statement lines', 'validation');
+  }
+
+  let account: string | undefined;
+  let currency: string | undefined;
+  const entries: StatementEntry[] = [];
+
+  for (const [i, field] of fields.entries()) {
+    if (field.tag === '25') {
+      account ??= field.lines[0].split('/').pop()!.trim();
+    } else if (field.tag === '60F' || field.tag === '60M') {
+      currency = field.lines[0].slice(7, 10);
+    } else if (field.tag === '61') {
+      const index = entries.length + 1;
+      const match = field.lines[0].match(MT940_STATEMENT_LINE);
+      if (!match) {
+        throw new ToolError(`MT940 statement line ${index} is not valid: ${field.lines[0]}`, 'validation');
+      }
+      const [, year, month, day, bookingMonthDay, mark, , amount, customerRef, bankRef] = match;
+
+      const valueDate = mt940Date(year, month, day);
+      let bookingDate = valueDate;
+      if (bookingMonthDay) {
+        // The booking date has no year; it can fall just across New Year from the value date
+        let bookingYear = Number(`20${year}`);
+        const bookingMonth = Number(bookingMonthDay.slice(0, 2));
+        if (bookingMonth === 1 && Number(month) === 12) bookingYear++;
+        if (bookingMonth === 12 && Number(month) === 1) bookingYear--;
+        bookingDate = `${bookingYear}-${bookingMonthDay.slice(0, 2)}-${bookingMonthDay.slice(2)}`;
+      }
+
+      // A reversed credit takes money out, a reversed debit puts it back
+      const isDebit = mark === 'D' || mark === 'RC';
+      const value = parseAmount(amount.replace(',', '.'));
+
+      const next = fields[i + 1];
+      const description = next?.tag === '86' ? parseMt940Description(next.lines) : null;
+      const subfields = description?.subfields ?? new Map<string, string[]>();
+      // Rabobank puts the counterparty in /CNTP/<iban>/<bic>/<name>/<city>/, ING and ABN AMRO use /IBAN/ and /NAME/
+      const counterparty = subfields.get('CNTP');
+      const endToEndId = subfields.get('EREF')?.[0]?.trim();
+      const reference = bankRef?.trim() || (customerRef.trim() !== 'NONREF' ? customerRef.trim() : undefined);
+
+      entries.push({
+        index,
+        bookingDate,
+        valueDate,
+        amount: isDebit ? -Math.abs(value) : Math.abs(value),
+        currency,
+        counterpartyName: subfields.get('NAME')?.[0]?.trim() || counterparty?.[2]?.trim() || undefined,
+        counterpartyIban: subfields.get('IBAN')?.[0]?.trim() || counterparty?.[0]?.trim() || undefined,
+        endToEndId: endToEndId && endToEndId !== NO_END_TO_END_ID ? endToEndId : undefined,
+        reference: reference || undefined,
+        // Neither reference is unique: banks repeat them, e.g. across the entries of a batch booking
+        uniqueReference: false,
+        description: mt940Remittance(subfields.get('REMI')) ?? description?.text,
+        pending: false,
+      });
+    }
+  }
+
+  // :25: is often the IBAN with the currency appended
+  if (account && currency && account.endsWith(currency) && account.length > currency.length) {
+    account = account.slice(0, -currency.length);
+  }
+  return { format: 'mt940', account, entries };
+}
@@ -0,0 +1,429 @@
+import { addDays, differenceInCalendarDays, subDays } from 'date-fns';
+import { MaybeFinanceAPI, Transaction } from './api-client.js';
+import { runBatch } from './batch-executor.js';
+import { loadCategorizationContext } from './categorization-context.js';
+import { CategorizationExplanation } from './categorization-engine.js';
+import { CategoryResolution, loadCategoryResolver } from './category-resolver.js';
+import { getImportIndex, importFingerprint, normalizeName } from './import-index.js';
+import { getRuleStore } from './rule-store.js';
+import { formatDateForAPI } from '../utils/date-utils.js';
+import { ToolError, cancelledError } from '../utils/errors.js';
+import { parseAmount } from '../utils/parsers.js';
+
+// Existing transactions this many days from a row, with the same amount and a
+// similar name, are near-duplicates of it
+const DUPLICATE_WINDOW_DAYS = 7;
+
+export interface ImportedTransaction {
+  date: string;
+  amount: string;
+  name: string;
+  category?: string;
+  // Maybe category, when the import resolved one
+  categoryId?: string;
+  merchant?: string;
+  notes?: string;
+}
+
+/**
+ * One transaction read from an import file, or the reason it could not be
+ */
+export interface ImportCandidate {
+  // Position in the file reported back to the user: a CSV line or statement entry
+  row: number;
+  transaction?: ImportedTransaction;
+  // The bank's own id for the row, when the format has one
+  reference?: string;
+  // The format guarantees the reference never repeats, so it identifies the row on its own
+  uniqueReference?: boolean;
+  // Left out on purpose, such as a declined card payment
+  skipped?: boolean;
+  error?: string;
+  // Source data echoed back with errors
+  data?: unknown;
+}
+
+/**
+ * The category auto-categorization picked for a row
+ */
+export interface SuggestedCategory {
+  category: string;
+  source: CategorizationExplanation['source'];
+  ruleId?: string;
+  // Learner confidence, for learned categories
+  confidence?: number;
+  // Unset when no Maybe category matches the name; the row is then imported uncategorized
+  categoryId?: string;
+}
+
+export interface ImportOptions {
+  accountId: string;
+  skipDuplicates: boolean;
+  autoCategorize: boolean;
+  dryRun: boolean;
+  concurrency?: number;
+  // Row an earlier import stopped at
+  cursor?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: number, total: number, message: string) => Promise<void>;
+}
+
+export interface ImportResult {
+  total: number;
+  imported: number;
+  duplicates: number;
+  // Rows the source leaves out, such as declined card payments
+  skipped: number;
+  failed: number;
+  // Outcome of every row, numbered like the file's lines or entries
+  results: Array<{
+    row: number;
+    status: 'imported' | 'duplicate' | 'near_duplicate' | 'skipped' | 'failed';
+    transactionId?: string;
+    // Category auto-categorization gave the row, and the rule that picked it
+    category?: string;
+    ruleId?: string;
+  }>;
+  // Rows not imported because a similar transaction was already in Maybe
+  nearDuplicates: Array<{
+    row: number;
+    transaction: ImportedTransaction;
+    existing: Pick<Transaction, 'id' | 'date' | 'amount' | 'name'>;
+  }>;
+  errors: Array<{
+    row: number;
+    error: string;
+    code?: string;
+    attempts?: number;
+    data?: any;
+  }>;
+  categorized: number;
+  // Auto-categorized rows by category
+  byCategory: Record<string, number>;
+  // Suggested categories missing in Maybe
+  unresolvedCategories?: Array<{ name: string; suggestions?: string[] }>;
+  preview?: any[];
+  // Set when the import stopped before the last row; pass as cursor to continue
+  stoppedEarly?: {
+    reason: string;
+    code: string;
+    cursor: number;
+  };
+}
+
+// Date range covered by the parsed transactions
+function getDateSpan(transactions: ImportedTransaction[]): { start: Date; end: Date } | null {
+  const dates = transactions.map(t => t.date).sort();
+  return dates.length > 0 ? { start: new Date(dates[0]), end: new Date(dates[dates.length - 1]) } : null;
+}
+
+/**
+ * The closest existing transaction with the same amount, a date within the
+ * window and a name that matches or contains the row's name or merchant
+ */
+function findNearDuplicate(transaction: ImportedTransaction, pool: Transaction[]): Transaction | undefined {
+  const amount = parseAmount(transaction.amount);
+  const names = [transaction.name, transaction.merchant]
+    .filter((name): name is string => !!name)
+    .map(normalizeName)
+    .filter(Boolean);
+
+  let closest: { transaction: Transaction; days: number } | undefined;
+  for (const existing of pool) {
+    const days = Math.abs(differenceInCalendarDays(new Date(existing.date), new Date(transaction.date)));
+    if (days > DUPLICATE_WINDOW_DAYS || Math.abs(parseAmount(existing.amount) - amount) >= 0.005) continue;
+
+    const existingName = normalizeName(existing.name || '');
+    const similar = !!existingName && names.some(name => name.includes(existingName) || existingName.includes(name));
+    if (similar && (!closest || days < closest.days)) closest = { transaction: existing, days };
+  }
+  return closest?.transaction;
+}
+
+/**
+ * Write parsed transactions to an account: check them against the account's
+ * existing transactions in file order, then create the rest concurrently.
+ * Shared by every import format so duplicates, dry runs, resuming and
+ * cancelling behave the same whatever the file was.
+ *
+ * Every created row is fingerprinted in the import index. A row whose
+ * fingerprint points at a transaction still in Maybe is a duplicate, so
+ * importing the same file again changes nothing; deleting the transaction in
+ * Maybe lets the row be imported again.
+ */
+export async function importTransactions(
+  apiClient: MaybeFinanceAPI,
+  candidates: ImportCandidate[],
+  options: ImportOptions
+): Promise<ImportResult> {
+  const index = getImportIndex();
+
+  // Fingerprint every row, including those before the cursor, so occurrence counts match the file
+  const occurrences = new Map<string, number>();
+  const fingerprints = new Map<ImportCandidate, string>();
+  for (const candidate of candidates) {
+    const transaction = candidate.transaction;
+    if (!transaction) continue;
+    const row = {
+      reference: candidate.reference,
+      uniqueReference: candidate.uniqueReference,
+      date: transaction.date,
+      amount: parseAmount(transaction.amount),
+      counterparty: transaction.merchant || transaction.name,
+    };
+    const key = `${row.date}:${row.amount.toFixed(2)}:${row.reference ? `ref:${row.reference}` : normalizeName(row.counterparty)}`;
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+    fingerprints.set(candidate, importFingerprint(options.accountId, { ...row, occurrence }));
+  }
+
+  const pending = options.cursor ? candidates.filter(c => c.row >= options.cursor!) : candidates;
+
+  const result: ImportResult = {
+    total: candidates.length,
+    imported: 0,
+    duplicates: 0,
+    skipped: 0,
+    failed: 0,
+    results: [],
+    nearDuplicates: [],
+    errors: [],
+    categorized: 0,
+    byCategory: {},
+    preview: options.dryRun ? [] : undefined,
+  };
+
+  // Get existing transactions for duplicate detection
+  let existingTransactions: Transaction[] = [];
+  let importedRows = new Map<string, string>();
+  if (options.skipDuplicates) {
+    // Every transaction the file could collide with, however many there are
+    const span = getDateSpan(pending.flatMap(c => c.transaction ? [c.transaction] : []));
+    existingTransactions = await apiClient.getAllTransactions({
+      accountId: options.accountId,
+      startDate: span ? formatDateForAPI(subDays(span.start, DUPLICATE_WINDOW_DAYS)) : undefined,
+      endDate: span ? formatDateForAPI(addDays(span.end, DUPLICATE_WINDOW_DAYS)) : undefined,
+    });
+    importedRows = await index.load(options.accountId);
+  }
+  if (options.signal?.aborted) throw cancelledError();
+
+  const existingIds = new Set(existingTransactions.map(t => t.id));
+  // Transactions an earlier import created are matched by fingerprint only;
+  // the rest (entered by hand, synced) can each absorb one near-duplicate row
+  const importedIds = new Set(importedRows.values());
+  const unmatched = existingTransactions.filter(t => !importedIds.has(t.id));
+
+  const fail = (candidate: ImportCandidate, error: string, extra: { code?: string; attempts?: number } = {}) => {
+    result.failed++;
+    result.results.push({ row: candidate.row, status: 'failed' });
+    result.errors.push({ row: candidate.row, error, ...extra, data: candidate.data });
+  };
+
+  // Check duplicates in file order first; only the creates run concurrently
+  const checked: Array<{ candidate: ImportCandidate; transaction: ImportedTransaction; fingerprint: string }> = [];
+  for (const candidate of pending) {
+    const transaction = candidate.transaction;
+    if (candidate.skipped) {
+      result.skipped++;
+      result.results.push({ row: candidate.row, status: 'skipped' });
+      continue;
+    }
+    if (!transaction) {
+      fail(candidate, candidate.error || 'Could not read transaction');
+      continue;
+    }
+    const fingerprint = fingerprints.get(candidate)!;
+
+    if (options.skipDuplicates) {
+      const transactionId = importedRows.get(fingerprint);
+      if (transactionId && existingIds.has(transactionId)) {
+        result.duplicates++;
+        result.results.push({ row: candidate.row, status: 'duplicate', transactionId });
+        continue;
+      }
+
+      const nearDuplicate = findNearDuplicate(transaction, unmatched);
+      if (nearDuplicate) {
+        unmatched.splice(unmatched.indexOf(nearDuplicate), 1);
+        result.results.push({ row: candidate.row, status: 'near_duplicate', transactionId: nearDuplicate.id });
+        result.nearDuplicates.push({
+          row: candidate.row,
+          transaction,
+          existing: { id: nearDuplicate.id, date: nearDuplicate.date, amount: nearDuplicate.amount, name: nearDuplicate.name },
+        });
+        continue;
+      }
+    }
+
+    checked.push({ candidate, transaction, fingerprint });
+  }
+
+  // Categories the file names must exist in Maybe; a row naming one that doesn't fails rather than
+  // being written with a category Maybe would drop
+  const accepted: typeof checked = [];
+  const resolver = checked.some(item => item.transaction.category && !item.transaction.categoryId)
+    ? await loadCategoryResolver(apiClient)
+    : null;
+  for (const item of checked) {
+    const { category, categoryId } = item.transaction;
+    if (!resolver || !category || categoryId) {
+      accepted.push(item);
+      continue;
+    }
+
+    const resolution = resolver.resolve(category);
+    if (resolution.categoryId) {
+      accepted.push({ ...item, transaction: { ...item.transaction, category: resolution.matchedName, categoryId: resolution.categoryId } });
+    } else {
+      const closest = resolution.suggestions?.length ? `; closest: ${resolution.suggestions.join(', ')}` : '';
+      fail(item.candidate, `No Maybe category matches '${category}'${closest}`, { code: 'unresolved_category' });
+    }
+  }
+
+  // Rows the file gives no category get one before they are written
+  const categorization = options.autoCategorize
+    ? await suggestCategories(apiClient, options.accountId, accepted.filter(item => !item.transaction.category))
+    : { suggestions: new Map<ImportCandidate, SuggestedCategory>(), unresolved: [] };
+  if (options.signal?.aborted) throw cancelledError();
+
+  const suggestions = categorization.suggestions;
+  const count = (suggestion: SuggestedCategory) => {
+    result.categorized++;
+    result.byCategory[suggestion.category] = (result.byCategory[suggestion.category] || 0) + 1;
+  };
+  if (categorization.unresolved.length > 0) {
+    result.unresolvedCategories = categorization.unresolved.map(r => ({ name: r.name, suggestions: r.suggestions }));
+  }
+
+  for (const item of accepted) {
+    const suggestion = suggestions.get(item.candidate);
+    if (suggestion?.categoryId) {
+      item.transaction = { ...item.transaction, category: suggestion.category, categoryId: suggestion.categoryId };
+    }
+  }
+  if (options.dryRun) {
+    for (const { candidate, transaction } of accepted) {
+      const suggestion = suggestions.get(candidate);
+      if (suggestion?.categoryId) count(suggestion);
+      result.preview!.push(suggestion ? { ...transaction, suggestedCategory: suggestion } : transaction);
+    }
+  }
+  const toCreate = options.dryRun ? [] : accepted;
+
+  // Create transactions - the client sends accountId as account_id
+  const batch = await runBatch(toCreate, async ({ transaction, fingerprint }) => {
+    const created = await apiClient.createTransaction({
+      ...transaction,
+      accountId: options.accountId,
+    });
+    // The transaction exists either way; a failed index write only means a re-import may flag it as a near-duplicate
+    await index.record({ fingerprint, accountId: options.accountId, transactionId: created.id })
+      .catch(error => console.error(`[Import Index Error] ${error instanceof Error ? error.message : error}`));
+    return created;
+  }, {
+    concurrency: options.concurrency,
+    // A create that timed out may still have been written, so retrying it could add the row twice
+    retries: 0,
+    signal: options.signal,
+    onProgress: (done, total) => options.onProgress?.(done, total, `Imported ${done} of ${total} transactions`),
+  });
+
+  for (const item of batch.results) {
+    const { candidate } = toCreate[item.index];
+    if (item.status === 'success') {
+      const suggestion = suggestions.get(candidate);
+      const categorized = suggestion?.categoryId ? suggestion : undefined;
+      if (categorized) count(categorized);
+      result.imported++;
+      result.results.push({
+        row: candidate.row,
+        status: 'imported',
+        transactionId: item.value!.id,
+        category: categorized?.category,
+        ruleId: categorized?.ruleId,
+      });
+    } else {
+      fail(candidate, item.error!.message, { code: item.error!.code, attempts: item.attempts });
+    }
+  }
+
+  // Resuming re-reads every row from the cursor on; rows created after it
+  // in this run are then skipped as duplicates by their fingerprint
+  if (batch.cursor !== null) {
+    result.stoppedEarly = {
+      reason: batch.stoppedBy!.message,
+      code: batch.stoppedBy!.code,
+      cursor: toCreate[batch.cursor].candidate.row,
+    };
+  }
+  if (batch.cancelled) {
+    // The response to a cancelled call is dropped, so say what was written in a last progress update
+    const summary = `Cancelled after importing ${result.imported} transactions; resume with cursor ${result.stoppedEarly!.cursor}`;
+    console.error(`[Import] ${summary}`);
+    await options.onProgress?.(batch.results.length, toCreate.length, summary);
+  }
+  result.results.sort((a, b) => a.row - b.row);
+  result.errors.sort((a, b) => a.row - b.row);
+
+  return result;
+}
+
+/**
+ * Categorize rows the way auto_categorize_all does: the rules first, then
+ * categories learned from the categorized history, then the built-in
+ * heuristics. Suggestions are matched to the family's Maybe categories by name.
+ */
+async function suggestCategories(
+  apiClient: MaybeFinanceAPI,
+  accountId: string,
+  rows: Array<{ candidate: ImportCandidate; transaction: ImportedTransaction }>
+): Promise<{ suggestions: Map<ImportCandidate, SuggestedCategory>; unresolved: CategoryResolution[] }> {
+  const suggestions = new Map<ImportCandidate, SuggestedCategory>();
+  if (rows.length === 0) return { suggestions, unresolved: [] };
+
+  const engine = await getRuleStore().getEngine();
+  // The API has no endpoint for a single account
+  const [accounts, context, resolver] = await Promise.all([
+    apiClient.getAccounts(),
+    loadCategorizationContext(apiClient, engine),
+    loadCategoryResolver(apiClient),
+  ]);
+  const account = accounts.find(acc => acc.id === accountId);
+  if (!account) {
+    throw new ToolError(`Account ${accountId} not found`, 'not_found');
+  }
+
+  const unresolved = new Map<string, CategoryResolution>();
+  const now = new Date().toISOString();
+  for (const { candidate, transaction } of rows) {
+    // The engine reads transactions the way Maybe returns them
+    const explanation = await engine.explain({
+      id: `row-${candidate.row}`,
+      date: transaction.date,
+      name: transaction.name,
+      amount: transaction.amount,
+      currency: account.currency,
+      category: null,
+      merchant: transaction.merchant,
+      tags: [],
+      excluded: false,
+      notes: transaction.notes,
+      account: { id: account.id, name: account.name, account_type: account.account_type },
+      created_at: now,
+      updated_at: now,
+    }, context);
+    if (!explanation.category) continue;
+
+    const resolution = resolver.resolve(explanation.category);
+    if (!resolution.categoryId) unresolved.set(resolution.name, resolution);
+    suggestions.set(candidate, {
+      category: explanation.category,
+      source: explanation.source,
+      ruleId: explanation.matchedRuleId,
+      confidence: explanation.confidence,
+      categoryId: resolution.categoryId,
+    });
+  }
+  return { suggestions, unresolved: Array.from(unresolved.values()) };
+}
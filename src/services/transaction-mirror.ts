@@ -0,0 +1,490 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { MaybeFinanceAPI, Account, Category, Transaction, TransactionWrite, onTransactionWrite } from './api-client.js';
+import { parseAmount, getAccountId } from '../utils/parsers.js';
+
+export interface MirrorOptions {
+  // Directory for the mirror databases; memory only when unset
+  directory?: string;
+  // Queries sync first when the last sync is older than this
+  maxAgeMinutes?: number;
+}
+
+export interface MirrorQuery {
+  accountIds?: string[];
+  // Inclusive yyyy-MM-dd bounds
+  startDate?: string;
+  endDate?: string;
+  classifications?: string[];
+}
+
+export interface SyncResult {
+  mode: 'full' | 'incremental';
+  accounts: number;
+  categories: number;
+  transactionsFetched: number;
+  transactionsChanged: number;
+  transactionsRemoved: number;
+  durationMs: number;
+  syncedAt: string;
+}
+
+export interface MirrorStatus {
+  storage: 'file' | 'memory';
+  path?: string;
+  lastSyncedAt: string | null;
+  lastFullSyncAt: string | null;
+  updatedThrough: string | null;
+  ageMinutes: number | null;
+  maxAgeMinutes: number;
+  stale: boolean;
+  syncing: boolean;
+  lastError: string | null;
+  counts: { accounts: number; categories: number; transactions: number };
+  dateRange: { earliest: string; latest: string } | null;
+}
+
+export interface MirrorFreshness {
+  lastSyncedAt: string | null;
+  stale: boolean;
+  syncError?: string;
+}
+
+const DEFAULT_MAX_AGE_MINUTES = 15;
+// Incremental syncs can't see deletions, so rebuild from scratch once a day
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS accounts (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    account_type TEXT,
+    classification TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS categories (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS transactions (
+    id TEXT PRIMARY KEY,
+    account_id TEXT,
+    date TEXT NOT NULL,
+    amount REAL,
+    classification TEXT,
+    category TEXT,
+    updated_at TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS transactions_date ON transactions (date);
+  CREATE INDEX IF NOT EXISTS transactions_account_date ON transactions (account_id, date);
+  CREATE TABLE IF NOT EXISTS sync_state (
+    key TEXT PRIMARY KEY,
+    value TEXT
+  );
+`;
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Local SQLite copy of accounts, categories and transactions. Analytics query
+ * it instead of paging through the API on every call; it is kept current by
+ * pulling only transactions whose `updated_at` moved past the last sync, and
+ * by applying writes made through this server as they happen.
+ */
+export class TransactionMirror {
+  private syncing: Promise<SyncResult> | null = null;
+  private syncingFull = false;
+  private lastError: string | null = null;
+  // A write landed while a sync was fetching, which may have read the row before it
+  private writtenDuringSync = false;
+  private persisting: Promise<void> = Promise.resolve();
+  private persistQueued = false;
+
+  private constructor(
+    private db: Database,
+    private filePath: string | null,
+    private maxAgeMinutes: number
+  ) {}
+
+  static async open(filePath: string | null, maxAgeMinutes: number = DEFAULT_MAX_AGE_MINUTES): Promise<TransactionMirror> {
+    const SQL = await (sqlJs ??= initSqlJs());
+
+    let data: Uint8Array | undefined;
+    if (filePath) {
+      data = await fs.readFile(filePath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return undefined;
+        throw error;
+      });
+    }
+
+    let db = new SQL.Database(data);
+    try {
+      db.run(SCHEMA);
+    } catch (error) {
+      // The mirror can always be rebuilt, so start over rather than fail
+      console.error('[Mirror Error] Discarding unreadable mirror database:', error);
+      db.close();
+      db = new SQL.Database();
+      db.run(SCHEMA);
+    }
+
+    return new TransactionMirror(db, filePath, maxAgeMinutes);
+  }
+
+  /**
+   * Pull changes from the API. Concurrent callers share the sync in progress,
+   * except that a full sync asked for during an incremental one runs after it.
+   */
+  sync(apiClient: MaybeFinanceAPI, options: { full?: boolean } = {}): Promise<SyncResult> {
+    const full = options.full ?? false;
+    if (this.syncing && full && !this.syncingFull) {
+      return this.syncing.catch(() => undefined).then(() => this.sync(apiClient, options));
+    }
+
+    if (!this.syncing) {
+      this.syncingFull = full;
+      this.syncing = this.runSync(apiClient, full)
+        .finally(() => { this.syncing = null; });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Sync when the mirror is stale. A failed sync falls back to the data we
+   * already have, so analysis keeps working while the server is slow or down.
+   */
+  async ensureFresh(apiClient: MaybeFinanceAPI): Promise<MirrorFreshness> {
+    if (this.isStale()) {
+      try {
+        await this.sync(apiClient);
+      } catch (error) {
+        if (!this.getState('last_synced_at')) throw error;
+        return {
+          lastSyncedAt: this.getState('last_synced_at'),
+          stale: true,
+          syncError: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    return { lastSyncedAt: this.getState('last_synced_at'), stale: false };
+  }
+
+  /**
+   * Apply a transaction written through this server so queries see it without
+   * waiting for the next sync. The sync watermark is left alone: it only
+   * moves when every change up to it has been pulled.
+   */
+  async applyWrite(write: TransactionWrite): Promise<void> {
+    // Nothing to keep current until the first sync fills the mirror
+    if (!this.getState('last_synced_at')) return;
+
+    if (write.type === 'upsert') {
+      this.upsertTransactions([write.transaction]);
+    } else {
+      this.db.run('DELETE FROM transactions WHERE id = ?', [write.transactionId]);
+    }
+    if (this.syncing) this.writtenDuringSync = true;
+
+    await this.persist();
+  }
+
+  queryTransactions(query: MirrorQuery = {}): Transaction[] {
+    const where: string[] = [];
+    const params: SqlValue[] = [];
+
+    if (query.accountIds && query.accountIds.length > 0) {
+      where.push(`account_id IN (${query.accountIds.map(() => '?').join(', ')})`);
+      params.push(...query.accountIds);
+    }
+    if (query.startDate) {
+      where.push('date >= ?');
+      params.push(query.startDate);
+    }
+    if (query.endDate) {
+      where.push('date <= ?');
+      params.push(query.endDate);
+    }
+    if (query.classifications && query.classifications.length > 0) {
+      where.push(`classification IN (${query.classifications.map(() => '?').join(', ')})`);
+      params.push(...query.classifications);
+    }
+
+    const sql = `SELECT data FROM transactions
+      ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+      ORDER BY date DESC, id`;
+    return this.select(sql, params).map(row => JSON.parse(row.data as string));
+  }
+
+  getAccounts(): Account[] {
+    return this.select('SELECT data FROM accounts ORDER BY name')
+      .map(row => JSON.parse(row.data as string));
+  }
+
+  status(): MirrorStatus {
+    const lastSyncedAt = this.getState('last_synced_at');
+    const count = (table: string) => Number(this.select(`SELECT COUNT(*) AS n FROM ${table}`)[0].n);
+    const range = this.select('SELECT MIN(date) AS earliest, MAX(date) AS latest FROM transactions')[0];
+
+    return {
+      storage: this.filePath ? 'file' : 'memory',
+      path: this.filePath || undefined,
+      lastSyncedAt,
+      lastFullSyncAt: this.getState('last_full_sync_at'),
+      updatedThrough: this.getState('transactions_updated_at'),
+      ageMinutes: lastSyncedAt
+        ? Math.round((Date.now() - new Date(lastSyncedAt).getTime()) / 60000)
+        : null,
+      maxAgeMinutes: this.maxAgeMinutes,
+      stale: this.isStale(),
+      syncing: this.syncing !== null,
+      lastError: this.lastError,
+      counts: {
+        accounts: count('accounts'),
+        categories: count('categories'),
+        transactions: count('transactions'),
+      },
+      dateRange: range.earliest
+        ? { earliest: range.earliest as string, latest: range.latest as string }
+        : null,
+    };
+  }
+
+  private isStale(): boolean {
+    if (this.writtenDuringSync) return true;
+    const lastSyncedAt = this.getState('last_synced_at');
+    return !lastSyncedAt ||
+      Date.now() - new Date(lastSyncedAt).getTime() > this.maxAgeMinutes * 60000;
+  }
+
+  private async runSync(apiClient: MaybeFinanceAPI, forceFull: boolean): Promise<SyncResult> {
+    const started = Date.now();
+    const watermark = this.getState('transactions_updated_at');
+    const lastFullSync = this.getState('last_full_sync_at');
+    const full = forceFull || !watermark || !lastFullSync ||
+      started - new Date(lastFullSync).getTime() > FULL_SYNC_INTERVAL_MS;
+    this.writtenDuringSync = false;
+
+    try {
+      const [accounts, categories] = await Promise.all([
+        apiClient.getAccounts(),
+        apiClient.getCategories(),
+      ]);
+
+      // Servers that ignore updated_since send everything; only rows newer than ours are written
+      const fetched: Transaction[] = [];
+      const filters = full ? {} : { updatedSince: watermark! };
+      for await (const page of apiClient.iterateTransactions(filters, { skipCache: true })) {
+        fetched.push(...page);
+      }
+      const known = new Map(
+        this.select('SELECT id, updated_at FROM transactions').map(row => [row.id as string, row.updated_at as string])
+      );
+      const changed = full ? fetched : fetched.filter(tx => !known.has(tx.id) || tx.updated_at > known.get(tx.id)!);
+
+      // Write everything in one transaction so a failed sync leaves the old mirror intact
+      const syncedAt = new Date().toISOString();
+      let removed = 0;
+      this.db.run('BEGIN');
+      try {
+        this.replaceAccounts(accounts);
+        this.replaceCategories(categories);
+        this.upsertTransactions(changed);
+        if (full) {
+          removed = this.removeMissingTransactions(new Set(fetched.map(tx => tx.id)));
+        }
+
+        const newWatermark = changed.reduce(
+          (latest, tx) => (tx.updated_at > latest ? tx.updated_at : latest),
+          watermark || ''
+        );
+        this.setState('transactions_updated_at', newWatermark || null);
+        this.setState('last_synced_at', syncedAt);
+        if (full) this.setState('last_full_sync_at', syncedAt);
+        this.db.run('COMMIT');
+      } catch (error) {
+        this.db.run('ROLLBACK');
+        throw error;
+      }
+
+      await this.persist();
+      this.lastError = null;
+
+      return {
+        mode: full ? 'full' : 'incremental',
+        accounts: accounts.length,
+        categories: categories.length,
+        transactionsFetched: fetched.length,
+        transactionsChanged: changed.length,
+        transactionsRemoved: removed,
+        durationMs: Date.now() - started,
+        syncedAt,
+      };
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  }
+
+  private replaceAccounts(accounts: Account[]): void {
+    this.db.run('DELETE FROM accounts');
+    const statement = this.db.prepare(
+      'INSERT INTO accounts (id, name, account_type, classification, data) VALUES (?, ?, ?, ?, ?)'
+    );
+    try {
+      for (const account of accounts) {
+        statement.run([account.id, account.name, account.account_type, account.classification, JSON.stringify(account)]);
+      }
+    } finally {
+      statement.free();
+    }
+  }
+
+  private replaceCategories(categories: Category[]): void {
+    this.db.run('DELETE FROM categories');
+    const statement = this.db.prepare('INSERT INTO categories (id, name, data) VALUES (?, ?, ?)');
+    try {
+      for (const category of categories) {
+        statement.run([category.id, category.name, JSON.stringify(category)]);
+      }
+    } finally {
+      statement.free();
+    }
+  }
+
+  private upsertTransactions(transactions: Transaction[]): void {
+    const statement = this.db.prepare(`
+      INSERT OR REPLACE INTO transactions
+        (id, account_id, date, amount, classification, category, updated_at, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    try {
+      for (const tx of transactions) {
+        let amount: number | null = null;
+        try {
+          amount = parseAmount(tx.amount);
+        } catch {
+          // Keep the row; the amount is still in the stored JSON
+        }
+
+        statement.run([
+          tx.id,
+          getAccountId(tx) || null,
+          tx.date.slice(0, 10),
+          amount,
+          tx.classification ?? null,
+          tx.category,
+          tx.updated_at,
+          JSON.stringify(tx),
+        ]);
+      }
+    } finally {
+      statement.free();
+    }
+  }
+
+  private removeMissingTransactions(keep: Set<string>): number {
+    const stale = this.select('SELECT id FROM transactions')
+      .map(row => row.id as string)
+      .filter(id => !keep.has(id));
+
+    const statement = this.db.prepare('DELETE FROM transactions WHERE id = ?');
+    try {
+      stale.forEach(id => statement.run([id]));
+    } finally {
+      statement.free();
+    }
+    return stale.length;
+  }
+
+  // Writes are saved one at a time; changes made while a save is queued go out with it
+  private persist(): Promise<void> {
+    if (!this.filePath) return Promise.resolve();
+    if (this.persistQueued) return this.persisting;
+
+    this.persistQueued = true;
+    const run = () => {
+      this.persistQueued = false;
+      return this.writeDatabase(this.filePath!);
+    };
+    this.persisting = this.persisting.then(run, run);
+    return this.persisting;
+  }
+
+  private async writeDatabase(filePath: string): Promise<void> {
+    // Write to a temporary file first so a crash never leaves half a database
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const temporary = `${filePath}.tmp`;
+    await fs.writeFile(temporary, this.db.export());
+    await fs.rename(temporary, filePath);
+  }
+
+  private select(sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Record<string, SqlValue>[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  private getState(key: string): string | null {
+    const row = this.select('SELECT value FROM sync_state WHERE key = ?', [key])[0];
+    return (row?.value as string | null) ?? null;
+  }
+
+  private setState(key: string, value: string | null): void {
+    this.db.run('INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)', [key, value]);
+  }
+}
+
+let mirrorOptions: MirrorOptions = {};
+// One mirror per server and key, shared by every session using that key
+const mirrors = new Map<string, Promise<TransactionMirror>>();
+
+// Writes through any session reach the mirror shared by that key
+onTransactionWrite(async (clientId, write) => {
+  const mirror = mirrors.get(clientId);
+  if (mirror) await (await mirror).applyWrite(write);
+});
+
+export function configureMirror(options: MirrorOptions): void {
+  mirrorOptions = options;
+}
+
+export function getMirror(apiClient: MaybeFinanceAPI): Promise<TransactionMirror> {
+  const clientId = apiClient.getClientId();
+  let mirror = mirrors.get(clientId);
+
+  if (!mirror) {
+    const filePath = mirrorOptions.directory
+      ? path.join(mirrorOptions.directory, `mirror-${clientId}.sqlite`)
+      : null;
+    mirror = TransactionMirror.open(filePath, mirrorOptions.maxAgeMinutes);
+    // Let the next call retry if the database couldn't be opened
+    mirror.catch(() => mirrors.delete(clientId));
+    mirrors.set(clientId, mirror);
+  }
+
+  return mirror;
+}
+
+/**
+ * Query mirrored transactions, syncing first if the mirror is stale
+ */
+export async function queryMirror(
+  apiClient: MaybeFinanceAPI,
+  query: MirrorQuery
+): Promise<{ transactions: Transaction[]; freshness: MirrorFreshness }> {
+  const mirror = await getMirror(apiClient);
+  const freshness = await mirror.ensureFresh(apiClient);
+  return { transactions: mirror.queryTransactions(query), freshness };
+}
@@ -1,24 +1,24 @@
-import { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { MaybeFinanceAPI } from "../services/api-client.js";
 import { IdSchema } from "../utils/validators.js";
 import { formatCurrency } from "../utils/formatters.js";
+import { ToolError, toolErrorResult } from "../utils/errors.js";
+import { defineTool } from "./registry.js";
 
 const GetAccountsSchema = z.object({
-  includeBalance: z.boolean().default(true),
-  groupByType: z.boolean().default(false),
+  includeBalance: z.boolean().default(true).describe("Include current balance (default: true)"),
+  groupByType: z.boolean().default(false).describe("Group accounts by type (default: false)"),
 });
 
 const GetAccountBalanceSchema = z.object({
-  accountId: IdSchema,
+  accountId: IdSchema.describe("Account ID"),
 });
 
-export async function handleAccountTools(request: CallToolRequest, apiClient: MaybeFinanceAPI) {
-    const { name, arguments: args } = request.params;
-
-    if (name === "get_accounts") {
-      const params = GetAccountsSchema.parse(args);
-      
+export const accountTools = [
+  defineTool({
+    name: "get_accounts",
+    description: "Get list of all accounts with their balances",
+    inputSchema: GetAccountsSchema,
+    handler: async (params, apiClient) => {
       try {
         const accounts = await apiClient.getAccounts();
 
@@ -77,14 +77,16 @@ export async function handleAccountTools(request: CallToolRequest, apiClient: Ma
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to fetch accounts: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to fetch accounts");
       }
-    }
+    },
+  }),
 
-    if (name === "get_account_balance") {
-      const params = GetAccountBalanceSchema.parse(args);
-      
+  defineTool({
+    name: "get_account_balance",
+    description: "Get current balance for a specific account",
+    inputSchema: GetAccountBalanceSchema,
+    handler: async (params, apiClient) => {
       try {
         // Since the API doesn't support individual account retrieval,
         // we'll fetch all accounts and find the one we need
@@ -92,7 +94,7 @@ export async function handleAccountTools(request: CallToolRequest, apiClient: Ma
         const account = accounts.find(acc => acc.id === params.accountId);
         
         if (!account) {
-          throw new Error("Account not found");
+          throw new ToolError(`Account ${params.accountId} not found`, "not_found");
         }
 
         return {
@@ -112,10 +114,8 @@ export async function handleAccountTools(request: CallToolRequest, apiClient: Ma
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to fetch account balance: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to fetch account balance");
       }
-    }
-
-    throw new Error(`Unknown account tool: ${name}`);
-}
\ No newline at end of file
+    },
+  }),
+];
\ No newline at end of file
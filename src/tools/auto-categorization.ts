@@ -1,56 +1,115 @@
-import { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { MaybeFinanceAPI } from "../services/api-client.js";
-import { CategorizationEngine, SPECIAL_CATEGORIES } from "../services/categorization-engine.js";
+import { Transaction } from "../services/api-client.js";
+import {
+  CategorizationEngine,
+  CategorizationExplanation,
+  SPECIAL_CATEGORIES,
+} from "../services/categorization-engine.js";
+import { CategoryLearner } from "../services/category-learner.js";
+import { loadCategorizationContext } from "../services/categorization-context.js";
+import { loadCategoryResolver, unresolvedCategoriesError } from "../services/category-resolver.js";
+import { getJournal } from "../services/operation-journal.js";
+import { runBatch } from "../services/batch-executor.js";
+import { getRuleStore, RuleConditionsSchema, StoredRuleSchema, toEngineRule, toStoredRule } from "../services/rule-store.js";
+import { queryMirror } from "../services/transaction-mirror.js";
+import { IdSchema } from "../utils/validators.js";
 import { parseDate, formatDateForAPI } from "../utils/date-utils.js";
 import { formatCurrency } from "../utils/formatters.js";
+import { ToolError, toolErrorResult } from "../utils/errors.js";
+import { defineTool } from "./registry.js";
+
+// Where a run stopped: `<date>:<transaction id>`, splitting at the first colon after the date
+const CURSOR_PATTERN = /^(\d{4}-\d{2}-\d{2}):(.+)$/;
+
+function parseCursor(cursor: string): { date: string; id: string } {
+  const match = CURSOR_PATTERN.exec(cursor);
+  if (!match) {
+    throw new ToolError("Use the cursor returned by an earlier run", "validation");
+  }
+  return { date: match[1], id: match[2] };
+}
 
 const AutoCategorizeSchema = z.object({
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
-  accountIds: z.array(z.string()).optional(),
-  onlyUncategorized: z.boolean().default(true),
-  dryRun: z.boolean().default(false),
-  limit: z.number().int().positive().max(1000).default(100),
+  startDate: z.string().optional().describe("Start date for categorization"),
+  endDate: z.string().optional().describe("End date for categorization"),
+  accountIds: z.array(z.string()).optional().describe("Filter by account IDs"),
+  onlyUncategorized: z.boolean().default(true).describe("Only process transactions without a category"),
+  dryRun: z.boolean().default(false).describe("Preview without applying changes"),
+  limit: z.number().int().positive().max(1000).default(100).describe("Maximum transactions to categorize"),
+  useLearner: z.boolean().default(true)
+    .describe("When no rule matches, use categories learned from your categorized history (default: true)"),
+  minConfidence: z.number().min(0).max(1).default(0.6)
+    .describe("Minimum learner confidence to apply a learned category (default: 0.6)"),
+  onUnresolved: z.enum(["abort", "skip"]).default("abort")
+    .describe("When a suggested category doesn't exist in Maybe: abort before writing anything, or skip those transactions"),
+  concurrency: z.number().int().min(1).max(10).default(4).describe("Transactions updated at the same time"),
+  cursor: z.string().regex(CURSOR_PATTERN, "Use the cursor returned by an earlier run").optional()
+    .describe("Continue a run that stopped early, from the cursor it returned"),
 });
 
 const DetectSubscriptionsSchema = z.object({
-  lookbackDays: z.number().int().positive().max(365).default(90),
-  accountIds: z.array(z.string()).optional(),
-  includeExpected: z.boolean().default(true),
+  lookbackDays: z.number().int().positive().max(365).default(90).describe("Days of history to analyze"),
+  accountIds: z.array(z.string()).optional().describe("Filter by account IDs"),
+  includeExpected: z.boolean().default(true).describe("Include the next expected payment date"),
 });
 
-const ManageCategoryRulesSchema = z.object({
-  action: z.enum(['list', 'add', 'remove']),
-  ruleId: z.string().optional(),
-  rule: z.object({
-    id: z.string(),
-    name: z.string(),
-    category: z.string(),
-    priority: z.number(),
-    conditions: z.object({
-      merchantPatterns: z.array(z.string()).optional(),
-      descriptionPatterns: z.array(z.string()).optional(),
-      amountRange: z.object({
-        min: z.number().optional(),
-        max: z.number().optional(),
-      }).optional(),
-    }).optional(),
-  }).optional(),
+const GetCategorizationRulesSchema = z.object({
+  category: z.string().optional().describe("Only list rules for this category"),
 });
 
-export async function handleAutoCategorization(request: CallToolRequest, apiClient: MaybeFinanceAPI) {
-  const engine = new CategorizationEngine();
-    const { name, arguments: args } = request.params;
+const AddCategorizationRuleSchema = StoredRuleSchema.extend({
+  id: StoredRuleSchema.shape.id.optional().describe("Rule ID (default: derived from the name)"),
+  name: StoredRuleSchema.shape.name.describe("Rule name"),
+  category: StoredRuleSchema.shape.category.describe("Category to assign"),
+  priority: StoredRuleSchema.shape.priority.default(50)
+    .describe("Higher priority rules are tried first (default: 50, built-in rules use 60-100)"),
+  conditions: RuleConditionsSchema.describe("All given conditions must match"),
+});
 
-    if (name === "auto_categorize_all") {
-      const params = AutoCategorizeSchema.parse(args);
-      
+const UpdateCategorizationRuleSchema = z.object({
+  ruleId: z.string().describe("Rule ID to update"),
+  name: StoredRuleSchema.shape.name.optional().describe("New rule name"),
+  category: StoredRuleSchema.shape.category.optional().describe("New category"),
+  priority: StoredRuleSchema.shape.priority.optional().describe("New priority"),
+  conditions: RuleConditionsSchema.optional().describe("Replaces all conditions of the rule"),
+});
+
+const RemoveCategorizationRuleSchema = z.object({
+  ruleId: z.string().describe("Rule ID to remove"),
+});
+
+const ExplainCategorizationSchema = z.object({
+  transactionId: IdSchema.describe("Transaction ID to explain"),
+});
+
+const TestCategorizationRuleSchema = z.object({
+  rule: AddCategorizationRuleSchema
+    .describe("Draft rule; reuse an existing rule's id to test a change to that rule"),
+  transactionCount: z.number().int().positive().max(1000).default(200)
+    .describe("How many recent transactions to test against (default: 200)"),
+  accountIds: z.array(IdSchema).optional().describe("Filter by account IDs"),
+});
+
+const SuggestCategoriesSchema = z.object({
+  transactionIds: z.array(IdSchema).max(50).optional().describe("Transactions to suggest categories for"),
+  text: z.string().min(1).optional().describe("Merchant or description to classify when there is no transaction"),
+  topK: z.number().int().positive().max(10).default(3).describe("Suggestions per transaction (default: 3)"),
+});
+
+// Keep tool output readable when a draft rule matches a lot
+const MAX_LISTED = 50;
+
+export const autoCategorizationTools = [
+  defineTool({
+    name: "auto_categorize_all",
+    description: "Auto-categorize all uncategorized transactions",
+    inputSchema: AutoCategorizeSchema,
+    handler: async (params, apiClient, context) => {
       try {
+        const engine = await getRuleStore().getEngine();
+
         // Build query parameters
-        const queryParams: any = {
-          limit: params.limit,
-        };
+        const queryParams: any = {};
         
         if (params.startDate) {
           const date = parseDate(params.startDate);
@@ -61,8 +120,8 @@ export async function handleAutoCategorization(request: CallToolRequest, apiClie
           queryParams.endDate = formatDateForAPI(date);
         }
 
-        // Get transactions
-        const { transactions } = await apiClient.getTransactions(queryParams);
+        // Get every transaction in the range, then cap how many we process
+        const transactions = await apiClient.getAllTransactions(queryParams);
         
         // Filter
         let toProcess = transactions;
@@ -74,41 +133,143 @@ export async function handleAutoCategorization(request: CallToolRequest, apiClie
             params.accountIds!.includes(tx.account?.id || '')
           );
         }
+        // Newest first, in a fixed order so a cursor marks the same place on the next run
+        toProcess.sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+        if (params.cursor) {
+          const resumeAt = parseCursor(params.cursor);
+          toProcess = toProcess.filter(tx =>
+            tx.date < resumeAt.date || (tx.date === resumeAt.date && tx.id >= resumeAt.id)
+          );
+        }
+        toProcess = toProcess.slice(0, params.limit);
+        const categorization = await loadCategorizationContext(apiClient, engine, {
+          useLearner: params.useLearner,
+          minConfidence: params.minConfidence,
+        });
 
         const results = {
           total: toProcess.length,
           categorized: 0,
           byCategory: {} as Record<string, number>,
+          bySource: { rule: 0, learned: 0, heuristic: 0, default: 0 },
           preview: params.dryRun ? [] as any[] : undefined,
           changes: [] as any[],
+          skipped: [] as any[],
+          failed: [] as any[],
         };
 
-        // Process each transaction
+        // Work out every suggestion first so unknown categories surface before any write
+        const planned: Array<{ transaction: Transaction; explanation: CategorizationExplanation }> = [];
+        let unreadable = 0;
         for (const transaction of toProcess) {
-          const suggestedCategory = await engine.categorize(transaction);
-          
-          if (suggestedCategory && suggestedCategory !== transaction.category) {
-            results.categorized++;
-            results.byCategory[suggestedCategory] = (results.byCategory[suggestedCategory] || 0) + 1;
-            
-            const change = {
+          let explanation: CategorizationExplanation;
+          try {
+            explanation = await engine.explain(transaction, categorization);
+          } catch (error) {
+            // Amount we can't parse; no rule could be evaluated, but the rest can still be categorized
+            unreadable++;
+            results.failed.push({
               id: transaction.id,
               name: transaction.name,
-              amount: formatCurrency(transaction.amount, transaction.currency),
+              amount: transaction.amount,
               date: transaction.date,
               oldCategory: transaction.category || 'Uncategorized',
-              newCategory: suggestedCategory,
-            };
-            
-            if (params.dryRun) {
-              results.preview!.push(change);
-            } else {
-              await apiClient.updateTransaction(transaction.id, {
-                category: suggestedCategory,
-              });
+              error: error instanceof Error ? error.message : String(error),
+              code: "validation",
+            });
+            continue;
+          }
+          if (explanation.category && explanation.category !== transaction.category) {
+            planned.push({ transaction, explanation });
+          }
+        }
+
+        const resolver = await loadCategoryResolver(apiClient);
+        const resolutions = new Map(
+          Array.from(new Set(planned.map(p => p.explanation.category!)))
+            .map(name => [name, resolver.resolve(name)])
+        );
+        const unresolved = Array.from(resolutions.values()).filter(r => !r.categoryId);
+        if (unresolved.length > 0 && params.onUnresolved === "abort" && !params.dryRun) {
+          throw unresolvedCategoriesError(unresolved);
+        }
+
+        const changes = planned.map(({ transaction, explanation }) => ({
+          transaction,
+          explanation,
+          change: {
+            id: transaction.id,
+            name: transaction.name,
+            amount: formatCurrency(transaction.amount, transaction.currency),
+            date: transaction.date,
+            oldCategory: transaction.category || 'Uncategorized',
+            newCategory: explanation.category!,
+            categoryId: resolutions.get(explanation.category!)!.categoryId,
+            source: explanation.source,
+            ruleId: explanation.matchedRuleId,
+            confidence: explanation.confidence,
+          },
+        }));
+
+        const count = (explanation: CategorizationExplanation) => {
+          results.categorized++;
+          results.byCategory[explanation.category!] = (results.byCategory[explanation.category!] || 0) + 1;
+          results.bySource[explanation.source]++;
+        };
+
+        let cursor: string | undefined;
+        let stoppedBy: { message: string; code: string } | undefined;
+
+        if (params.dryRun) {
+          for (const { explanation, change } of changes) {
+            count(explanation);
+            results.preview!.push(change);
+          }
+        } else {
+          results.skipped = changes
+            .filter(c => !c.change.categoryId)
+            .map(c => ({ ...c.change, reason: "unresolved_category" }));
+          const writable = changes.filter(c => c.change.categoryId);
+
+          const batch = await runBatch(writable, async ({ transaction, change }) => {
+            const updated = await apiClient.updateTransaction(transaction.id, {
+              categoryId: change.categoryId,
+            });
+            await getJournal().record({
+              operationId: context.callId,
+              tool: "auto_categorize_all",
+              transactionId: transaction.id,
+              before: { category: transaction.category },
+              after: { category: updated.category },
+            });
+          }, {
+            concurrency: params.concurrency,
+            signal: context.signal,
+            onProgress: (done, total) => context.reportProgress(done, total, `Updated ${done} of ${total} transactions`),
+          });
+
+          for (const item of batch.results) {
+            const { explanation, change } = writable[item.index];
+            if (item.status === "success") {
+              count(explanation);
               results.changes.push(change);
+            } else {
+              results.failed.push({ ...change, error: item.error!.message, code: item.error!.code, attempts: item.attempts });
             }
           }
+
+          if (batch.cursor !== null) {
+            const next = writable[batch.cursor].transaction;
+            cursor = `${next.date}:${next.id}`;
+            stoppedBy = batch.stoppedBy;
+          }
+          if (batch.cancelled) {
+            // The response to a cancelled call is dropped, so say what was written in a last progress update
+            const summary = `Cancelled after categorizing ${results.changes.length} transactions ` +
+              `(operation ${context.callId}); resume with cursor ${cursor}`;
+            console.error(`[Auto-categorize] ${summary}`);
+            await context.reportProgress(batch.results.length, writable.length, summary);
+          }
         }
 
         return {
@@ -119,9 +280,19 @@ export async function handleAutoCategorization(request: CallToolRequest, apiClie
                 summary: {
                   processed: toProcess.length,
                   categorized: results.categorized,
-                  unchanged: toProcess.length - results.categorized,
+                  skipped: results.skipped.length,
+                  failed: results.failed.length,
+                  unchanged: toProcess.length - planned.length - unreadable,
                 },
+                stoppedEarly: cursor
+                  ? { reason: stoppedBy?.message, code: stoppedBy?.code, cursor }
+                  : undefined,
+                categoryResolution: Array.from(resolutions.values()),
+                unresolvedCategories: unresolved.length > 0 ? unresolved.map(r => r.name) : undefined,
                 byCategory: results.byCategory,
+                bySource: results.bySource,
+                operationId: results.changes.length > 0 ? context.callId : undefined,
+                learnedFrom: categorization.learner?.size,
                 specialCategories: {
                   [SPECIAL_CATEGORIES.REQUIRED_PURCHASES]: results.byCategory[SPECIAL_CATEGORIES.REQUIRED_PURCHASES] || 0,
                   [SPECIAL_CATEGORIES.DISCRETIONARY]: results.byCategory[SPECIAL_CATEGORIES.DISCRETIONARY] || 0,
@@ -130,18 +301,24 @@ export async function handleAutoCategorization(request: CallToolRequest, apiClie
                 },
                 preview: params.dryRun ? results.preview : undefined,
                 changes: !params.dryRun ? results.changes : undefined,
+                skipped: results.skipped.length > 0 ? results.skipped : undefined,
+                failed: results.failed.length > 0 ? results.failed : undefined,
               }, null, 2),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to auto-categorize: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to auto-categorize");
       }
-    }
+    },
+  }),
 
-    if (name === "detect_subscriptions") {
-      const params = DetectSubscriptionsSchema.parse(args);
+  defineTool({
+    name: "detect_subscriptions",
+    description: "Detect recurring payments such as subscriptions from transaction history",
+    inputSchema: DetectSubscriptionsSchema,
+    handler: async (params, apiClient) => {
+      const engine = new CategorizationEngine();
       
       try {
         const startDate = new Date();
@@ -150,10 +327,9 @@ export async function handleAutoCategorization(request: CallToolRequest, apiClie
         const queryParams: any = {
           startDate: formatDateForAPI(startDate),
           endDate: formatDateForAPI(new Date()),
-          limit: 1000, // Get many transactions for pattern analysis
         };
 
-        const { transactions } = await apiClient.getTransactions(queryParams);
+        const transactions = await apiClient.getAllTransactions(queryParams);
         
         // Filter by accounts if specified
         let filtered = transactions;
@@ -220,97 +396,309 @@ export async function handleAutoCategorization(request: CallToolRequest, apiClie
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to detect subscriptions: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to detect subscriptions");
       }
-    }
+    },
+  }),
 
-    if (name === "get_categorization_rules") {
-      // Default to 'list' action if not specified
-      const params = ManageCategoryRulesSchema.parse({ action: 'list', ...args });
-      
+  defineTool({
+    name: "get_categorization_rules",
+    description: "List the categorization rules used by auto_categorize_all",
+    inputSchema: GetCategorizationRulesSchema,
+    handler: async (params) => {
       try {
-        if (params.action === 'list' || !params.action) {
-          const rules = engine.getRules();
-          const formattedRules = rules.map(rule => ({
-            id: rule.id,
-            name: rule.name,
-            category: rule.category,
-            priority: rule.priority,
-            conditions: {
-              merchantPatterns: rule.conditions.merchantPatterns?.map(r => r.source),
-              descriptionPatterns: rule.conditions.descriptionPatterns?.map(r => r.source),
-              amountRange: rule.conditions.amountRange,
-              dayOfWeek: rule.conditions.dayOfWeek,
-              dayOfMonth: rule.conditions.dayOfMonth,
-              isRecurring: rule.conditions.isRecurring,
+        const store = getRuleStore();
+        const engine = await store.getEngine();
+        const rules = engine.getRules()
+          .filter(rule => !params.category || rule.category.toLowerCase() === params.category.toLowerCase());
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                totalRules: rules.length,
+                rules: rules.map(toStoredRule),
+                categories: Object.values(SPECIAL_CATEGORIES),
+                rulesFile: {
+                  path: store.filePath,
+                  exists: await store.exists(),
+                },
+              }, null, 2),
             },
-          }));
-
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({
-                  totalRules: rules.length,
-                  rules: formattedRules,
-                  categories: Object.values(SPECIAL_CATEGORIES),
-                }, null, 2),
-              },
-            ],
-          };
-        }
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to get categorization rules");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "add_categorization_rule",
+    description: "Add a categorization rule and save it to the rules file",
+    inputSchema: AddCategorizationRuleSchema,
+    handler: async (params) => {
+      try {
+        const { id, ...fields } = params;
+        const rule = await getRuleStore().addRule({ id: id || ruleIdFromName(fields.name), ...fields });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                message: `Rule '${rule.name}' added successfully`,
+                rule: toStoredRule(rule),
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to add categorization rule");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "update_categorization_rule",
+    description: "Change a categorization rule's name, category, priority or conditions",
+    inputSchema: UpdateCategorizationRuleSchema,
+    handler: async (params) => {
+      try {
+        const { ruleId, ...changes } = params;
+        const rule = await getRuleStore().updateRule(ruleId, changes);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                message: `Rule '${ruleId}' updated successfully`,
+                rule: toStoredRule(rule),
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to update categorization rule");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "remove_categorization_rule",
+    description: "Remove a categorization rule and save the change to the rules file",
+    inputSchema: RemoveCategorizationRuleSchema,
+    handler: async (params) => {
+      try {
+        const rule = await getRuleStore().removeRule(params.ruleId);
 
-        if (params.action === 'add' && params.rule) {
-          const newRule = {
-            ...params.rule,
-            conditions: {
-              ...params.rule.conditions,
-              merchantPatterns: params.rule.conditions?.merchantPatterns?.map(p => new RegExp(p, 'i')),
-              descriptionPatterns: params.rule.conditions?.descriptionPatterns?.map(p => new RegExp(p, 'i')),
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                message: `Rule '${params.ruleId}' removed successfully`,
+                rule: toStoredRule(rule),
+              }, null, 2),
             },
-          };
-          
-          engine.addRule(newRule as any);
-          
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({
-                  success: true,
-                  message: `Rule '${params.rule.name}' added successfully`,
-                  rule: params.rule,
-                }, null, 2),
-              },
-            ],
-          };
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to remove categorization rule");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "suggest_categories",
+    description: "Suggest categories for transactions from how you categorized similar ones before (naive Bayes over merchants and description words)",
+    inputSchema: SuggestCategoriesSchema,
+    handler: async (params, apiClient) => {
+      try {
+        if (!params.transactionIds?.length && !params.text) {
+          throw new ToolError("Provide transactionIds or text", "validation");
+        }
+
+        const requested = await Promise.all(
+          (params.transactionIds || []).map(id => apiClient.getTransaction(id))
+        );
+        // Leave the transactions being asked about out of the training data
+        const requestedIds = new Set(requested.map(tx => tx.id));
+        const { transactions, freshness } = await queryMirror(apiClient, {});
+        const learner = new CategoryLearner(transactions.filter(tx => !requestedIds.has(tx.id)));
+
+        const results: any[] = requested.map(transaction => ({
+          transaction: summarizeTransaction(transaction),
+          suggestions: learner.suggest(transaction, params.topK),
+        }));
+        if (params.text) {
+          results.push({
+            text: params.text,
+            suggestions: learner.suggest({ merchant: params.text, name: params.text }, params.topK),
+          });
         }
 
-        if (params.action === 'remove' && params.ruleId) {
-          const removed = engine.removeRule(params.ruleId);
-          
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({
-                  success: removed,
-                  message: removed ? 
-                    `Rule '${params.ruleId}' removed successfully` :
-                    `Rule '${params.ruleId}' not found`,
-                }, null, 2),
-              },
-            ],
-          };
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                learnedFrom: {
+                  transactions: learner.size,
+                  categories: learner.categories.length,
+                },
+                results,
+                dataSource: freshness,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to suggest categories");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "explain_categorization",
+    description: "Show which categorization rules were tried for a transaction and which conditions passed or failed",
+    inputSchema: ExplainCategorizationSchema,
+    handler: async (params, apiClient) => {
+      try {
+        const engine = await getRuleStore().getEngine();
+        const transaction = await apiClient.getTransaction(params.transactionId);
+        const context = await loadCategorizationContext(apiClient, engine);
+        const explanation = await engine.explain(transaction, context);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                transaction: summarizeTransaction(transaction),
+                ...explanation,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to explain categorization");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "test_categorization_rule",
+    description: "Try a draft categorization rule on recent transactions without saving it: matches, conflicts with higher-priority rules and categories that would change",
+    inputSchema: TestCategorizationRuleSchema,
+    handler: async (params, apiClient) => {
+      try {
+        const engine = await getRuleStore().getEngine();
+        const { id, ...fields } = params.rule;
+        const draft = toEngineRule({ id: id || "draft", ...fields });
+        const currentRules = engine.getRules();
+        const draftEngine = new CategorizationEngine([
+          ...currentRules.filter(rule => rule.id !== draft.id),
+          draft,
+        ]);
+
+        const { transactions, freshness } = await queryMirror(apiClient, { accountIds: params.accountIds });
+        const recent = transactions.slice(0, params.transactionCount);
+        const context = await loadCategorizationContext(apiClient, engine);
+
+        const matches: any[] = [];
+        const conflicts: any[] = [];
+        const changes: any[] = [];
+        const changesByCategory: Record<string, number> = {};
+        let skipped = 0;
+
+        for (const transaction of recent) {
+          let before: CategorizationExplanation;
+          let after: CategorizationExplanation;
+          try {
+            before = await engine.explain(transaction, context);
+            after = await draftEngine.explain(transaction, context);
+          } catch {
+            // Amount we can't parse; no rule could be evaluated
+            skipped++;
+            continue;
+          }
+
+          const draftEvaluation = after.evaluations.find(evaluation => evaluation.ruleId === draft.id)!;
+          if (draftEvaluation.matched) {
+            matches.push(summarizeTransaction(transaction));
+
+            if (after.matchedRuleId !== draft.id) {
+              const winner = after.evaluations.find(evaluation => evaluation.ruleId === after.matchedRuleId)!;
+              conflicts.push({
+                transaction: summarizeTransaction(transaction),
+                winningRule: {
+                  id: winner.ruleId,
+                  name: winner.ruleName,
+                  category: winner.category,
+                  priority: winner.priority,
+                },
+              });
+            }
+          }
+
+          if (before.category !== after.category) {
+            const key = `${before.category} → ${after.category}`;
+            changesByCategory[key] = (changesByCategory[key] || 0) + 1;
+            changes.push({
+              transaction: summarizeTransaction(transaction),
+              from: before.category,
+              to: after.category,
+            });
+          }
         }
 
-        throw new Error('Invalid action or missing parameters');
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                rule: toStoredRule(draft),
+                replacesExistingRule: currentRules.some(rule => rule.id === draft.id),
+                summary: {
+                  tested: recent.length - skipped,
+                  skipped,
+                  matched: matches.length,
+                  conflicts: conflicts.length,
+                  wouldChange: changes.length,
+                },
+                changesByCategory,
+                matches: matches.slice(0, MAX_LISTED),
+                conflicts: conflicts.slice(0, MAX_LISTED),
+                changes: changes.slice(0, MAX_LISTED),
+                dataSource: freshness,
+              }, null, 2),
+            },
+          ],
+        };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to manage rules: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to test categorization rule");
       }
-    }
+    },
+  }),
+];
+
+function summarizeTransaction(transaction: Transaction) {
+  return {
+    id: transaction.id,
+    date: transaction.date,
+    name: transaction.name,
+    merchant: transaction.merchant || undefined,
+    amount: formatCurrency(transaction.amount, transaction.currency),
+    category: transaction.category || "Uncategorized",
+  };
+}
 
-    throw new Error(`Unknown tool: ${name}`);
-}
\ No newline at end of file
+function ruleIdFromName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "rule";
+}
@@ -1,121 +1,72 @@
-import { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { MaybeFinanceAPI, Transaction } from "../services/api-client.js";
+import { queryMirror } from "../services/transaction-mirror.js";
 import { subDays, startOfDay, endOfDay, format } from "date-fns";
 import { formatCurrency, formatPercentage } from "../utils/formatters.js";
-import { parseAmount, getAccountId } from "../utils/parsers.js";
+import { parseAmount } from "../utils/parsers.js";
 import { IdSchema } from "../utils/validators.js";
+import { cancelledError, toolErrorResult } from "../utils/errors.js";
+import { defineTool } from "./registry.js";
 
 const GetRollingCashFlowSchema = z.object({
-  days: z.number().int().positive().max(365).default(30),
-  accountIds: z.array(IdSchema).optional(),
-  excludeTransfers: z.boolean().default(true),
-  groupByCategory: z.boolean().default(false),
-  groupByAccount: z.boolean().default(false),
-  includeInsights: z.boolean().default(true),
+  days: z.number().int().positive().max(365).default(30).describe("Rolling period in days"),
+  accountIds: z.array(IdSchema).optional().describe("Filter by account IDs"),
+  excludeTransfers: z.boolean().default(true).describe("Exclude transfers between own accounts"),
+  groupByCategory: z.boolean().default(false).describe("Break down flows by category"),
+  groupByAccount: z.boolean().default(false).describe("Break down flows by account"),
+  includeInsights: z.boolean().default(true).describe("Include generated insights"),
 });
 
 const GetCashFlowTrendSchema = z.object({
-  periods: z.number().int().positive().max(12).default(6),
-  periodType: z.enum(["day", "week", "month"]).default("month"),
-  accountIds: z.array(IdSchema).optional(),
+  periods: z.number().int().positive().max(12).default(6).describe("Number of periods to compare"),
+  periodType: z.enum(["day", "week", "month"]).default("month").describe("Length of each period"),
+  accountIds: z.array(IdSchema).optional().describe("Filter by account IDs"),
 });
 
-export async function handleCashFlowTools(request: CallToolRequest, apiClient: MaybeFinanceAPI) {
-    const { name, arguments: args } = request.params;
-
-    if (name === "get_rolling_cash_flow") {
-      const params = GetRollingCashFlowSchema.parse(args);
-      
-      const startDate = startOfDay(subDays(new Date(), params.days));
-      const endDate = endOfDay(new Date());
-      
-      try {
-        const { transactions } = await apiClient.getTransactions({
-          startDate: startDate.toISOString(),
-          endDate: endDate.toISOString(),
-        });
-
-        // Filter by accounts if specified
-        let filtered = transactions;
-        if (params.accountIds && params.accountIds.length > 0) {
-          filtered = transactions.filter((t: Transaction) => {
-            const accountId = getAccountId(t);
-            return params.accountIds!.includes(accountId);
-          });
-        }
-        
-        // Exclude transfers if requested
-        if (params.excludeTransfers) {
-          filtered = await excludeTransfers(filtered);
-        }
-
-        // Parse amounts and classify based on classification field
-        const inflows = filtered
-          .filter((t: Transaction) => t.classification === 'income')
-          .reduce((sum: number, t: Transaction) => sum + parseAmount(t.amount), 0);
-          
-        const outflows = filtered
-          .filter((t: Transaction) => t.classification === 'expense')
-          .reduce((sum: number, t: Transaction) => sum + parseAmount(t.amount), 0);
-        
-        const netFlow = inflows - outflows;
+const GetCashFlowSchema = z.object({
+  startDate: z.string().optional().describe("Start date (ISO format or DD-MM-YYYY)"),
+  endDate: z.string().optional().describe("End date (ISO format or DD-MM-YYYY)"),
+  accountId: IdSchema.optional().describe("Filter by account ID"),
+  frequency: z.enum(["daily", "weekly", "monthly"]).optional().describe("Aggregation frequency"),
+});
 
-        const result: any = {
-          period: `${params.days} days`,
-          dateRange: {
-            from: startDate.toISOString(),
-            to: endDate.toISOString(),
-          },
-          summary: {
-            inflows: formatCurrency(inflows),
-            outflows: formatCurrency(outflows),
-            netFlow: formatCurrency(netFlow),
-            avgDailyInflow: formatCurrency(inflows / params.days),
-            avgDailyOutflow: formatCurrency(outflows / params.days),
-            avgDailyNet: formatCurrency(netFlow / params.days),
-          },
-          transactionCount: {
-            total: filtered.length,
-            filtered: transactions.length - filtered.length,
-            inflows: filtered.filter((t: Transaction) => t.classification === 'income').length,
-            outflows: filtered.filter((t: Transaction) => t.classification === 'expense').length,
-          },
-        };
+const ForecastCashFlowSchema = z.object({
+  days: z.number().int().positive().max(90).default(30).describe("Number of days to forecast"),
+  accountId: IdSchema.optional().describe("Filter by account ID"),
+  includeRecurring: z.boolean().default(true).describe("Include detected recurring transactions"),
+});
 
-        if (params.groupByCategory) {
-          result.breakdown = { byCategory: groupByCategory(filtered) };
-        }
-        
-        if (params.groupByAccount) {
-          result.breakdown = { ...result.breakdown, byAccount: groupByAccount(filtered) };
-        }
-        
-        if (params.includeInsights) {
-          result.insights = generateInsights(filtered, {
-            netFlow,
-            days: params.days,
-            avgDailyOutflow: outflows / params.days,
-          });
-        }
+export const cashFlowTools = [
+  defineTool({
+    name: "get_cash_flow",
+    description: "Get cash flow analysis for a period",
+    inputSchema: GetCashFlowSchema,
+    handler: async (params, apiClient) => {
+      // Use rolling cash flow for 30 days if no dates specified
+      const days = params.startDate && params.endDate ? 
+        Math.ceil((new Date(params.endDate).getTime() - new Date(params.startDate).getTime()) / (1000 * 60 * 60 * 24)) : 
+        30;
+      
+      return getRollingCashFlow(GetRollingCashFlowSchema.parse({
+        days,
+        accountIds: params.accountId ? [params.accountId] : undefined,
+      }), apiClient);
+    },
+  }),
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to calculate cash flow: ${errorMessage}`);
-      }
-    }
+  defineTool({
+    name: "get_rolling_cash_flow",
+    description: "Get rolling cash flow analysis",
+    inputSchema: GetRollingCashFlowSchema,
+    handler: async (params, apiClient) => getRollingCashFlow(params, apiClient),
+  }),
 
-    if (name === "get_cash_flow_trend") {
-      const params = GetCashFlowTrendSchema.parse(args);
-      
+  defineTool({
+    name: "get_cash_flow_trend",
+    description: "Compare cash flow across consecutive days, weeks or months",
+    inputSchema: GetCashFlowTrendSchema,
+    handler: async (params, apiClient) => {
       try {
         const periods = await calculatePeriodFlows(apiClient, params);
         
@@ -140,61 +91,30 @@ export async function handleCashFlowTools(request: CallToolRequest, apiClient: M
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to calculate cash flow trend: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to calculate cash flow trend");
       }
-    }
+    },
+  }),
 
-    if (name === "get_cash_flow") {
-      // For now, redirect to get_rolling_cash_flow with 30 days default
-      const params = z.object({
-        startDate: z.string().optional(),
-        endDate: z.string().optional(),
-        accountId: IdSchema.optional(),
-        frequency: z.enum(["daily", "weekly", "monthly"]).optional(),
-      }).parse(args);
-      
-      // Use rolling cash flow for 30 days if no dates specified
-      const days = params.startDate && params.endDate ? 
-        Math.ceil((new Date(params.endDate).getTime() - new Date(params.startDate).getTime()) / (1000 * 60 * 60 * 24)) : 
-        30;
-      
-      return handleCashFlowTools({
-        ...request,
-        params: {
-          ...request.params,
-          name: "get_rolling_cash_flow",
-          arguments: {
-            days,
-            accountIds: params.accountId ? [params.accountId] : undefined,
-          }
-        }
-      }, apiClient);
-    }
-
-    if (name === "forecast_cash_flow") {
-      const params = z.object({
-        days: z.number().int().positive().max(90).default(30),
-        accountId: IdSchema.optional(),
-        includeRecurring: z.boolean().default(true),
-      }).parse(args);
-      
+  defineTool({
+    name: "forecast_cash_flow",
+    description: "Forecast future cash flow based on historical data",
+    inputSchema: ForecastCashFlowSchema,
+    handler: async (params, apiClient, context) => {
       try {
         // Get historical data for analysis (90 days)
         const startDate = startOfDay(subDays(new Date(), 90));
         const endDate = endOfDay(new Date());
         
-        const queryParams: any = {
+        // Loading may first sync the mirror, which is the slow part
+        await context.reportProgress(0, 2, "Loading 90 days of transactions");
+        const { transactions, freshness } = await queryMirror(apiClient, {
           startDate: format(startDate, 'yyyy-MM-dd'),
           endDate: format(endDate, 'yyyy-MM-dd'),
-          limit: 1000,
-        };
-        
-        if (params.accountId) {
-          queryParams.accountId = params.accountId;
-        }
-        
-        const { transactions } = await apiClient.getTransactions(queryParams);
+          accountIds: params.accountId ? [params.accountId] : undefined,
+        });
+        if (context.signal.aborted) throw cancelledError();
+        await context.reportProgress(1, 2, `Forecasting from ${transactions.length} transactions`);
         
         // Calculate average daily cash flow
         const dailyCashFlows: Record<string, number> = {};
@@ -222,6 +142,7 @@ export async function handleCashFlowTools(request: CallToolRequest, apiClient: M
           });
         }
         
+        await context.reportProgress(2, 2, "Forecast ready");
         return {
           content: [
             {
@@ -242,17 +163,99 @@ export async function handleCashFlowTools(request: CallToolRequest, apiClient: M
                   `💰 Expected balance change in ${params.days} days: ${formatCurrency(cumulativeCashFlow, 'EUR')}`,
                 ],
                 disclaimer: "This is a simple linear forecast based on historical averages. Actual results may vary.",
+                dataSource: freshness,
               }, null, 2),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to forecast cash flow: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to forecast cash flow");
       }
+    },
+  }),
+];
+
+async function getRollingCashFlow(
+  params: z.infer<typeof GetRollingCashFlowSchema>,
+  apiClient: MaybeFinanceAPI
+): Promise<CallToolResult> {
+  const startDate = startOfDay(subDays(new Date(), params.days));
+  const endDate = endOfDay(new Date());
+  
+  try {
+    const { transactions, freshness } = await queryMirror(apiClient, {
+      startDate: format(startDate, 'yyyy-MM-dd'),
+      endDate: format(endDate, 'yyyy-MM-dd'),
+      accountIds: params.accountIds,
+    });
+
+    // Exclude transfers if requested
+    let filtered = transactions;
+    if (params.excludeTransfers) {
+      filtered = await excludeTransfers(filtered);
     }
 
-    throw new Error(`Unknown tool: ${name}`);
+    // Parse amounts and classify based on classification field
+    const inflows = filtered
+      .filter((t: Transaction) => t.classification === 'income')
+      .reduce((sum: number, t: Transaction) => sum + parseAmount(t.amount), 0);
+      
+    const outflows = filtered
+      .filter((t: Transaction) => t.classification === 'expense')
+      .reduce((sum: number, t: Transaction) => sum + parseAmount(t.amount), 0);
+    
+    const netFlow = inflows - outflows;
+
+    const result: any = {
+      period: `${params.days} days`,
+      dateRange: {
+        from: startDate.toISOString(),
+        to: endDate.toISOString(),
+      },
+      summary: {
+        inflows: formatCurrency(inflows),
+        outflows: formatCurrency(outflows),
+        netFlow: formatCurrency(netFlow),
+        avgDailyInflow: formatCurrency(inflows / params.days),
+        avgDailyOutflow: formatCurrency(outflows / params.days),
+        avgDailyNet: formatCurrency(netFlow / params.days),
+      },
+      transactionCount: {
+        total: filtered.length,
+        filtered: transactions.length - filtered.length,
+        inflows: filtered.filter((t: Transaction) => t.classification === 'income').length,
+        outflows: filtered.filter((t: Transaction) => t.classification === 'expense').length,
+      },
+      dataSource: freshness,
+    };
+
+    if (params.groupByCategory) {
+      result.breakdown = { byCategory: groupByCategory(filtered) };
+    }
+    
+    if (params.groupByAccount) {
+      result.breakdown = { ...result.breakdown, byAccount: groupByAccount(filtered) };
+    }
+    
+    if (params.includeInsights) {
+      result.insights = generateInsights(filtered, {
+        netFlow,
+        days: params.days,
+        avgDailyOutflow: outflows / params.days,
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  } catch (error: unknown) {
+    return toolErrorResult(error, "Failed to calculate cash flow");
+  }
 }
 
 function groupByCategory(transactions: Transaction[]): Record<string, any> {
@@ -342,7 +345,7 @@ async function calculatePeriodFlows(
         break;
     }
     
-    const { transactions } = await apiClient.getTransactions({
+    const transactions = await apiClient.getAllTransactions({
       startDate: startDate.toISOString(),
       endDate: endDate.toISOString(),
     });
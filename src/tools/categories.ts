@@ -1,20 +1,23 @@
-import { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { MaybeFinanceAPI, Transaction } from "../services/api-client.js";
-import { parseAmount } from "../utils/parsers.js";
 import { IdSchema } from "../utils/validators.js";
-import { formatCurrency, formatPercentage } from "../utils/formatters.js";
+import { toolErrorResult } from "../utils/errors.js";
+import { resolveCategoryId } from "../services/category-resolver.js";
+import { defineTool } from "./registry.js";
 
-// const GetCategoriesSchema = z.object({});
+const GetCategoriesSchema = z.object({
+  includeUsageStats: z.boolean().default(false).describe("Include usage statistics"),
+});
 
 const CategorizeTransactionsSchema = z.object({
-  transactionIds: z.array(IdSchema),
-  category: z.string(),
+  transactionIds: z.array(IdSchema).describe("List of transaction IDs"),
+  category: z.string().describe("Category to apply to all"),
 });
 
-const GetSpendingBreakdownSchema = z.object({
-  days: z.number().int().positive().max(365).default(30),
-  includeAssets: z.boolean().default(false),
+const CreateCategorySchema = z.object({
+  name: z.string().describe("Category name"),
+  parentCategory: z.string().optional().describe("Parent category name for subcategory"),
+  color: z.string().optional().describe("Category color (hex code)"),
+  icon: z.string().optional().describe("Category icon name"),
 });
 
 // Special categories for user requirements
@@ -25,10 +28,12 @@ export const SPECIAL_CATEGORIES = {
   SPENDING_BUT_ASSETS: "Spending but Assets"
 };
 
-export async function handleCategoryTools(request: CallToolRequest, apiClient: MaybeFinanceAPI) {
-    const { name, arguments: args } = request.params;
-
-    if (name === "get_categories") {
+export const categoryTools = [
+  defineTool({
+    name: "get_categories",
+    description: "Get all available categories",
+    inputSchema: GetCategoriesSchema,
+    handler: async () => {
       try {
         // Since the API doesn't have a categories endpoint, we'll return a hardcoded list
         // of common financial categories plus the special categories
@@ -73,18 +78,21 @@ export async function handleCategoryTools(request: CallToolRequest, apiClient: M
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to fetch categories: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to fetch categories");
       }
-    }
-
-    if (name === "categorize_transactions") {
-      const params = CategorizeTransactionsSchema.parse(args);
-      
+    },
+  }),
+
+  defineTool({
+    name: "categorize_transactions",
+    description: "Apply one category to several transactions, failing if any update fails",
+    inputSchema: CategorizeTransactionsSchema,
+    handler: async (params, apiClient) => {
       try {
+        const categoryId = await resolveCategoryId(apiClient, params.category);
         const results = await Promise.all(
           params.transactionIds.map(id => 
-            apiClient.updateTransaction(id, { category: params.category })
+            apiClient.updateTransaction(id, { categoryId })
           )
         );
 
@@ -95,95 +103,23 @@ export async function handleCategoryTools(request: CallToolRequest, apiClient: M
               text: JSON.stringify({
                 updated: results.length,
                 category: params.category,
+                categoryId,
                 transactionIds: params.transactionIds,
               }, null, 2),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to categorize transactions: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to categorize transactions");
       }
-    }
-
-    if (name === "get_spending_breakdown") {
-      const params = GetSpendingBreakdownSchema.parse(args);
-      
-      try {
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - params.days);
-        
-        const { transactions } = await apiClient.getTransactions({
-          startDate: startDate.toISOString(),
-          endDate: new Date().toISOString(),
-        });
-
-        // Filter only expenses based on classification
-        const expenses = transactions.filter((tx: Transaction) => 
-          tx.classification === 'expense' && !tx.excluded
-        );
-
-        const breakdown: Record<string, number> = {};
-        let uncategorizedTotal = 0;
-        
-        expenses.forEach((tx: Transaction) => {
-          const category = tx.category || "Uncategorized";
-          const amount = parseAmount(tx.amount);
-          
-          if (!params.includeAssets && category === SPECIAL_CATEGORIES.SPENDING_BUT_ASSETS) {
-            return;
-          }
-          
-          if (category === "Uncategorized") {
-            uncategorizedTotal += amount;
-          } else {
-            breakdown[category] = (breakdown[category] || 0) + amount;
-          }
-        });
-        
-        if (uncategorizedTotal > 0) {
-          breakdown["Uncategorized"] = uncategorizedTotal;
-        }
-
-        const total = Object.values(breakdown).reduce((sum, val) => sum + val, 0);
-        
-        const formattedBreakdown = Object.entries(breakdown)
-          .sort(([, a], [, b]) => b - a)
-          .map(([category, amount]) => ({
-            category,
-            amount,
-            percentage: (amount / total) * 100,
-            formatted: formatCurrency(amount, 'EUR'),
-            formattedPercentage: formatPercentage(amount / total),
-          }));
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                period: `${params.days} days`,
-                total: formatCurrency(total, 'EUR'),
-                breakdown: formattedBreakdown,
-                uncategorizedCount: expenses.filter((tx: Transaction) => !tx.category).length,
-              }, null, 2),
-            },
-          ],
-        };
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to get spending breakdown: ${errorMessage}`);
-      }
-    }
-
-    if (name === "create_category") {
-      const params = z.object({
-        name: z.string(),
-        parentCategory: z.string().optional(),
-        color: z.string().optional(),
-        icon: z.string().optional(),
-      }).parse(args);
-      
+    },
+  }),
+
+  defineTool({
+    name: "create_category",
+    description: "Create a new category",
+    inputSchema: CreateCategorySchema,
+    handler: async (params) => {
       try {
         // For now, return a mock response since the API doesn't support category creation
         const newCategory = {
@@ -210,13 +146,11 @@ export async function handleCategoryTools(request: CallToolRequest, apiClient: M
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to create category: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to create category");
       }
-    }
-
-    throw new Error(`Unknown tool: ${name}`);
-}
+    },
+  }),
+];
 
 function getColorForSpecialCategory(name: string): string {
   const colors: Record<string, string> = {
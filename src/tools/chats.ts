@@ -0,0 +1,276 @@
+import { z } from "zod";
+import { MaybeFinanceAPI, Chat, ChatMessage } from "../services/api-client.js";
+import { IdSchema } from "../utils/validators.js";
+import { cancelledError, toolErrorResult } from "../utils/errors.js";
+import { defineTool } from "./registry.js";
+
+const ChatModelSchema = z.enum(["gpt-4", "gpt-4-turbo", "gpt-3.5-turbo"]);
+
+const WaitForReplySchema = z.object({
+  waitForReply: z.boolean().default(true)
+    .describe("Poll the chat until Maybe's assistant has answered (default: true)"),
+  timeoutSeconds: z.number().int().positive().max(120).default(30)
+    .describe("How long to wait for the reply (default: 30, max: 120)"),
+});
+
+const ListChatsSchema = z.object({
+  page: z.number().int().positive().default(1).describe("Page number (default: 1)"),
+  perPage: z.number().int().positive().max(100).optional().describe("Chats per page"),
+});
+
+const GetChatSchema = z.object({
+  chatId: IdSchema.describe("Chat ID"),
+  page: z.number().int().positive().default(1).describe("Message page number (default: 1)"),
+});
+
+const StartChatSchema = z.object({
+  title: z.string().optional().describe("Chat title"),
+  message: z.string().min(1).optional().describe("Initial question for Maybe's assistant"),
+  model: ChatModelSchema.optional().describe("AI model (default: gpt-4)"),
+}).merge(WaitForReplySchema);
+
+const SendChatMessageSchema = z.object({
+  chatId: IdSchema.describe("Chat ID"),
+  content: z.string().min(1).describe("Message to send"),
+  model: ChatModelSchema.optional().describe("AI model (default: gpt-4)"),
+}).merge(WaitForReplySchema);
+
+const DeleteChatSchema = z.object({
+  chatId: IdSchema.describe("Chat ID to delete"),
+});
+
+const POLL_INTERVAL_MS = 2000;
+
+export const chatTools = [
+  defineTool({
+    name: "list_chats",
+    description: "List conversations with Maybe's built-in AI assistant",
+    inputSchema: ListChatsSchema,
+    handler: async (params, apiClient) => {
+      try {
+        const { chats, pagination } = await apiClient.getChats(params.page, params.perPage);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                chats: chats.map(chat => ({
+                  id: chat.id,
+                  title: chat.title,
+                  messageCount: chat.message_count,
+                  lastMessageAt: chat.last_message_at,
+                  error: chat.error || undefined,
+                  createdAt: chat.created_at,
+                })),
+                pagination: {
+                  page: pagination.page,
+                  perPage: pagination.per_page,
+                  totalCount: pagination.total_count,
+                  totalPages: pagination.total_pages,
+                },
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to list chats");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "get_chat",
+    description: "Read the messages of a Maybe AI chat",
+    inputSchema: GetChatSchema,
+    handler: async (params, apiClient) => {
+      try {
+        const chat = await apiClient.getChat(params.chatId, params.page);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(formatChat(chat), null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to get chat");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "start_chat",
+    description: "Start a new chat with Maybe's built-in AI assistant, optionally asking a first question",
+    inputSchema: StartChatSchema,
+    handler: async (params, apiClient, context) => {
+      try {
+        const chat = await apiClient.createChat(params.title, params.message, params.model);
+        const userMessage = chat.messages.find(m => m.role === "user");
+
+        let reply: ChatMessage | null = null;
+        if (params.message && params.waitForReply && userMessage) {
+          reply = await waitForReply(apiClient, chat.id, userMessage, params.timeoutSeconds, context.signal);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                chat: formatChat(chat),
+                reply: reply ? formatMessage(reply) : undefined,
+                replyPending: Boolean(params.message) && !reply,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to start chat");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "send_chat_message",
+    description: "Send a message to an existing Maybe AI chat and read the assistant's answer",
+    inputSchema: SendChatMessageSchema,
+    handler: async (params, apiClient, context) => {
+      try {
+        const message = await apiClient.sendChatMessage(params.chatId, params.content, params.model);
+
+        const reply = params.waitForReply
+          ? await waitForReply(apiClient, params.chatId, message, params.timeoutSeconds, context.signal)
+          : null;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                message: formatMessage(message),
+                reply: reply ? formatMessage(reply) : undefined,
+                replyPending: !reply,
+                status: message.ai_response_status,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to send chat message");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "delete_chat",
+    description: "Delete a Maybe AI chat",
+    inputSchema: DeleteChatSchema,
+    handler: async (params, apiClient) => {
+      try {
+        await apiClient.deleteChat(params.chatId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                message: "Chat deleted successfully",
+                chatId: params.chatId,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to delete chat");
+      }
+    },
+  }),
+];
+
+function formatMessage(message: ChatMessage) {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    model: message.model || undefined,
+    toolCalls: message.tool_calls.length > 0
+      ? message.tool_calls.map(call => call.function_name)
+      : undefined,
+    createdAt: message.created_at,
+  };
+}
+
+function formatChat(chat: Chat) {
+  return {
+    id: chat.id,
+    title: chat.title,
+    error: chat.error || undefined,
+    messages: chat.messages.map(formatMessage),
+    pagination: chat.pagination ? {
+      page: chat.pagination.page,
+      totalPages: chat.pagination.total_pages,
+      totalCount: chat.pagination.total_count,
+    } : undefined,
+  };
+}
+
+/**
+ * Wait between polls, waking early when the call is cancelled
+ */
+function pause(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+  });
+}
+
+/**
+ * AI replies are generated in the background, so poll the chat until an
+ * assistant message newer than the user's message shows up, time runs out
+ * or the call is cancelled.
+ */
+async function waitForReply(
+  apiClient: MaybeFinanceAPI,
+  chatId: string,
+  userMessage: ChatMessage,
+  timeoutSeconds: number,
+  signal: AbortSignal
+): Promise<ChatMessage | null> {
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  const sentAt = new Date(userMessage.created_at).getTime();
+
+  while (Date.now() < deadline) {
+    await pause(POLL_INTERVAL_MS, signal);
+    if (signal.aborted) throw cancelledError();
+
+    let chat = await apiClient.getChat(chatId);
+    // Newest messages are on the last page
+    if (chat.pagination && chat.pagination.total_pages > 1) {
+      chat = await apiClient.getChat(chatId, chat.pagination.total_pages);
+    }
+
+    if (chat.error) {
+      throw new Error(`Maybe assistant failed: ${chat.error}`);
+    }
+
+    const reply = chat.messages.find(m =>
+      m.role === "assistant" &&
+      m.id !== userMessage.id &&
+      new Date(m.created_at).getTime() >= sentAt &&
+      Boolean(m.content)
+    );
+    if (reply) return reply;
+  }
+
+  return null;
+}
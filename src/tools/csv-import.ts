@@ -1,212 +1,522 @@
-import { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { MaybeFinanceAPI, Transaction } from "../services/api-client.js";
 import Papa from "papaparse";
-import { createHash } from "crypto";
-import { parseDate, formatDateForAPI } from "../utils/date-utils.js";
+import { parseDate, parseDateWithFormat, formatDateForAPI, detectDateFormat } from "../utils/date-utils.js";
 import { parseAmount } from "../utils/parsers.js";
 import { IdSchema } from "../utils/validators.js";
+import { ToolError, toolErrorResult } from "../utils/errors.js";
+import { CSV_CHARSETS, CsvCharset, CsvLayout, decodeCsvBytes, detectCsvLayout, sliceCsvBody } from "../services/csv-format.js";
+import { CsvFieldMappingSchema, CsvProfile, ProfileMatch, resolveCsvProfile } from "../services/csv-profiles.js";
+import { getImportPresets } from "../services/import-presets.js";
+import { resolveCategoryId } from "../services/category-resolver.js";
+import { ImportCandidate, importTransactions } from "../services/transaction-importer.js";
+import { defineTool } from "./registry.js";
+
+// File settings detected when omitted; analyze_csv returns them to pass back
+const CsvFormatParams = {
+  charset: z.enum(CSV_CHARSETS).optional().describe("Character set of base64 content"),
+  delimiter: z.string().min(1).optional().describe("Column delimiter"),
+  skipRows: z.number().int().min(0).optional().describe("Lines before the header row, such as account details"),
+  skipTrailingRows: z.number().int().min(0).optional().describe("Summary lines after the last row"),
+  hasHeader: z.boolean().optional().describe("Whether the first row holds column names"),
+};
+
+const FieldMappingParam = z.object({
+  date: z.string().optional().describe("Column name for date"),
+  amount: z.string().optional().describe("Column name for amount"),
+  description: z.string().optional().describe("Column name for description"),
+  category: z.string().optional().describe("Column name for category"),
+  merchant: z.string().optional().describe("Column name for merchant"),
+  reference: z.string().optional().describe("Column name for the bank's transaction reference"),
+  uniqueReference: z.boolean().optional()
+    .describe("The reference never repeats, so it identifies a row on its own (default: false)"),
+  debitColumn: z.string().optional().describe("Column with money out, for files with separate debit and credit columns"),
+  creditColumn: z.string().optional().describe("Column with money in, for files with separate debit and credit columns"),
+  direction: z.object({
+    column: z.string().describe("Column saying which way the money went"),
+    debit: z.array(z.string()).min(1).describe("Values meaning money out, e.g. Af, D or DBIT"),
+    credit: z.array(z.string()).min(1).describe("Values meaning money in, e.g. Bij, C or CRDT"),
+  }).optional().describe("Direction column, for files with unsigned amounts"),
+  amountSign: z.enum(['expense_negative', 'expense_positive']).optional()
+    .describe("Whether the amount column writes expenses negative (the default) or positive"),
+});
 
 const ImportCSVSchema = z.object({
-  accountId: IdSchema,
-  csvContent: z.string(),
-  encoding: z.enum(['base64', 'utf8']).default('utf8'),
-  fieldMapping: z.object({
-    date: z.string().optional(),
-    amount: z.string().optional(),
-    description: z.string().optional(),
-    category: z.string().optional(),
-    merchant: z.string().optional(),
-  }).optional(),
-  dateFormat: z.string().optional(),
-  skipDuplicates: z.boolean().default(true),
-  autoCategarize: z.boolean().default(false),
-  dryRun: z.boolean().default(false),
+  accountId: IdSchema.describe("Account ID to import into"),
+  csvContent: z.string().describe("CSV file content"),
+  encoding: z.enum(['base64', 'utf8']).default('utf8').describe("Encoding of csvContent"),
+  ...CsvFormatParams,
+  filename: z.string().optional().describe("Name of the exported file, used to recognize the bank"),
+  profile: z.string().optional().describe("Bank profile to use (e.g. ing-nl, abn-amro, rabobank, bunq, revolut); detected when omitted"),
+  fieldMapping: FieldMappingParam.optional()
+    .describe("Column mapping (from the account's import preset or the bank profile, or detected from headers when omitted)"),
+  dateFormat: z.string().optional()
+    .describe("date-fns format of the date column, e.g. dd/MM/yyyy; detected from all rows when omitted"),
+  skipDuplicates: z.boolean().default(true).describe("Skip duplicate transactions"),
+  autoCategorize: z.boolean().optional().describe("Auto-categorize imported transactions (default: false)"),
+  // Misspelled name this parameter had in earlier releases
+  autoCategarize: z.boolean().optional().describe("Deprecated: use autoCategorize"),
+  dryRun: z.boolean().default(false).describe("Preview without importing"),
+  concurrency: z.number().int().min(1).max(10).default(4).describe("Transactions created at the same time"),
+  cursor: z.number().int().min(1).optional()
+    .describe("Continue an import that stopped early from the row it returned as cursor"),
+  usePreset: z.boolean().default(true).describe("Apply the account's saved import preset"),
 });
 
 const AnalyzeCSVSchema = z.object({
-  csvContent: z.string(),
-  encoding: z.enum(['base64', 'utf8']).default('utf8'),
-  sampleRows: z.number().default(5),
+  csvContent: z.string().describe("CSV file content to analyze"),
+  encoding: z.enum(['base64', 'utf8']).default('utf8').describe("Encoding of csvContent"),
+  ...CsvFormatParams,
+  filename: z.string().optional().describe("Name of the exported file, used to recognize the bank"),
+  profile: z.string().optional().describe("Bank profile to use; detected when omitted"),
+  dateFormat: z.string().optional().describe("date-fns format to read the dates with; detected from all rows when omitted"),
+  sampleRows: z.number().default(5).describe("Number of rows to include as sample"),
+});
+
+const SaveImportPresetSchema = z.object({
+  accountId: IdSchema.describe("Account the preset is for"),
+  fieldMapping: FieldMappingParam.optional().describe("Column mapping, e.g. the suggestedMapping from analyze_csv"),
+  dateFormat: z.string().optional().describe("date-fns format of the date column, e.g. dd-MM-yyyy"),
+  ...CsvFormatParams,
+  amountSign: z.enum(['expense_negative', 'expense_positive']).optional()
+    .describe("Whether the account's exports write expenses negative or positive"),
+  defaultCategory: z.string().optional().describe("Category for rows the file gives none"),
+});
+
+const ListImportPresetsSchema = z.object({
+  accountId: IdSchema.optional().describe("Only show this account's preset"),
+});
+
+const DeleteImportPresetSchema = z.object({
+  accountId: IdSchema.describe("Account whose preset to delete"),
 });
 
 interface CSVRow {
   [key: string]: any;
 }
 
-interface ImportResult {
-  total: number;
-  imported: number;
-  duplicates: number;
-  errors: Array<{
-    row: number;
-    error: string;
-    data?: any;
-  }>;
-  categorized: number;
-  preview?: any[];
+interface CsvTable {
+  headers: string[];
+  rows: CSVRow[];
+  // Line number of the first data row
+  firstRow: number;
 }
 
-export async function handleCSVImportTools(request: CallToolRequest, apiClient: MaybeFinanceAPI) {
-    const { name, arguments: args } = request.params;
+interface CsvFile extends CsvTable {
+  match: ProfileMatch | null;
+  // Settings the file was read with
+  format: CsvLayout & { charset: CsvCharset };
+}
 
-    if (name === "analyze_csv") {
-      const params = AnalyzeCSVSchema.parse(args);
-      
+export const csvImportTools = [
+  defineTool({
+    name: "import_csv",
+    description: "Import transactions from CSV file",
+    inputSchema: ImportCSVSchema,
+    handler: async (params, apiClient, context) => {
       try {
-        const csvData = params.encoding === 'base64' 
-          ? Buffer.from(params.csvContent, 'base64').toString('utf-8')
-          : params.csvContent;
-
-        const parsed = Papa.parse(csvData, {
-          header: true,
-          dynamicTyping: false, // Keep as strings for analysis
-          skipEmptyLines: true,
+        // Arguments passed in win over the account's preset, and the preset over the bank profile
+        const preset = params.usePreset ? await getImportPresets().get(params.accountId) : undefined;
+        const { headers, rows, firstRow, match, format } = await loadCsv({
+          ...params,
+          charset: params.charset ?? preset?.charset,
+          delimiter: params.delimiter ?? preset?.delimiter,
+          skipRows: params.skipRows ?? preset?.skipRows,
+          skipTrailingRows: params.skipTrailingRows ?? preset?.skipTrailingRows,
+          hasHeader: params.hasHeader ?? preset?.hasHeader,
         });
-
-        if (parsed.errors.length > 0) {
-          throw new Error(`CSV parsing errors: ${parsed.errors[0].message}`);
+        const profile = match?.profile ?? null;
+        let mapping = params.fieldMapping
+          || (params.profile ? profile?.mapping : undefined)
+          || preset?.mapping
+          || profile?.mapping
+          || detectFieldMapping(headers, rows);
+        const amountSign = params.fieldMapping?.amountSign ?? preset?.amountSign;
+        if (amountSign) mapping = { ...mapping, amountSign };
+        const dates = chooseDateFormat(rows.filter(row => !isSkippedRow(row, profile)), mapping.date, [
+          { format: params.dateFormat, source: 'argument' },
+          { format: preset?.dateFormat, source: 'preset' },
+          { format: profile?.dateFormat, source: 'profile' },
+        ]);
+
+        const candidates: ImportCandidate[] = [];
+        for (const [i, row] of rows.entries()) {
+          if (isSkippedRow(row, profile)) {
+            candidates.push({ row: i + firstRow, skipped: true });
+            continue;
+          }
+          try {
+            const transaction = await processRow(row, mapping, { dateFormat: dates.format });
+            // Resolved to a Maybe category with the file's own category names when imported
+            if (preset?.defaultCategory && !transaction.category) {
+              transaction.category = preset.defaultCategory;
+            }
+            candidates.push({
+              row: i + firstRow,
+              transaction,
+              reference: mapping.reference ? row[mapping.reference]?.trim() || undefined : undefined,
+              uniqueReference: mapping.uniqueReference,
+            });
+          } catch (error) {
+            candidates.push({ row: i + firstRow, error: error instanceof Error ? error.message : String(error), data: row });
+          }
         }
 
-        const headers = parsed.meta.fields || [];
-        const sampleData = parsed.data.slice(0, params.sampleRows);
-        const fieldMapping = detectFieldMapping(headers, sampleData as CSVRow[]);
+        const imported = await importTransactions(apiClient, candidates, {
+          accountId: params.accountId,
+          skipDuplicates: params.skipDuplicates,
+          autoCategorize: params.autoCategorize ?? params.autoCategarize ?? false,
+          dryRun: params.dryRun,
+          concurrency: params.concurrency,
+          cursor: params.cursor,
+          signal: context.signal,
+          onProgress: context.reportProgress,
+        });
+        const result = {
+          profile: match ? { id: match.profile.id, name: match.profile.name, matchedBy: match.matchedBy } : undefined,
+          preset,
+          format,
+          dateFormat: dates,
+          ...imported,
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to import CSV");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "analyze_csv",
+    description: "Analyze CSV structure before import",
+    inputSchema: AnalyzeCSVSchema,
+    handler: async (params) => {
+      try {
+        const { headers, rows, firstRow, match, format } = await loadCsv(params);
+        const sampleData = rows.slice(0, params.sampleRows);
+        const fieldMapping = match?.profile.mapping || detectFieldMapping(headers, sampleData);
+        const dates = chooseDateFormat(rows.filter(row => !isSkippedRow(row, match?.profile ?? null)), fieldMapping.date, [
+          { format: params.dateFormat, source: 'argument' },
+          { format: match?.profile.dateFormat, source: 'profile' },
+        ]);
+
+        // How each sample row would be imported, so a wrong sign convention shows before importing
+        const sampleTransactions = [];
+        for (const [i, row] of sampleData.entries()) {
+          try {
+            const transaction = await processRow(row, fieldMapping, { dateFormat: dates.format });
+            sampleTransactions.push({
+              row: i + firstRow,
+              date: transaction.date,
+              amount: transaction.amount,
+              name: transaction.name,
+              type: parseAmount(transaction.amount) < 0 ? 'expense' : 'income',
+            });
+          } catch (error) {
+            sampleTransactions.push({ row: i + firstRow, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
 
         return {
           content: [
             {
               type: "text",
               text: JSON.stringify({
+                profile: match
+                  ? {
+                      id: match.profile.id,
+                      name: match.profile.name,
+                      matchedBy: match.matchedBy,
+                      builtIn: match.builtIn,
+                      dateFormat: match.profile.dateFormat,
+                    }
+                  : null,
+                format,
                 headers,
-                rowCount: parsed.data.length,
+                rowCount: rows.length,
                 suggestedMapping: fieldMapping,
+                dateFormat: dates,
+                amountDirection: describeAmountDirection(fieldMapping),
                 sampleData,
-                detectedPatterns: analyzePatterns(sampleData as CSVRow[], fieldMapping),
+                sampleTransactions,
+                detectedPatterns: analyzePatterns(sampleData, fieldMapping),
               }, null, 2),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to analyze CSV: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to analyze CSV");
       }
-    }
-
-    if (name === "import_csv") {
-      const params = ImportCSVSchema.parse(args);
-      
+    },
+  }),
+
+  defineTool({
+    name: "save_import_preset",
+    description: "Save how an account's CSV exports are read; import_csv applies it to every import into the account",
+    inputSchema: SaveImportPresetSchema,
+    handler: async (params, apiClient) => {
       try {
-        const csvData = params.encoding === 'base64' 
-          ? Buffer.from(params.csvContent, 'base64').toString('utf-8')
-          : params.csvContent;
-
-        const parsed = Papa.parse(csvData, {
-          header: true,
-          dynamicTyping: false,
-          skipEmptyLines: true,
-          transformHeader: (header) => header.trim(),
-        });
-
-        if (parsed.errors.length > 0) {
-          throw new Error(`CSV parsing errors: ${parsed.errors[0].message}`);
+        const { fieldMapping, ...settings } = params;
+        if (Object.values(params).filter(value => value !== undefined).length === 1) {
+          throw new ToolError("Give at least one setting to save", "validation");
         }
+        // Catch a misspelled category now rather than on the next import
+        if (settings.defaultCategory) await resolveCategoryId(apiClient, settings.defaultCategory);
 
-        const rows = parsed.data as CSVRow[];
-        const mapping = params.fieldMapping || detectFieldMapping(parsed.meta.fields || [], rows);
-        
-        const result: ImportResult = {
-          total: rows.length,
-          imported: 0,
-          duplicates: 0,
-          errors: [],
-          categorized: 0,
-          preview: params.dryRun ? [] : undefined,
-        };
-
-        // Get existing transactions for duplicate detection
-        let existingTransactions: Transaction[] = [];
-        if (params.skipDuplicates) {
-          const { transactions } = await apiClient.getTransactions({
-            accountId: params.accountId,
-            limit: 1000, // Get recent transactions for duplicate check
-          });
-          existingTransactions = transactions;
-        }
-
-        // Process each row
-        for (let i = 0; i < rows.length; i++) {
-          try {
-            const transaction = await processRow(
-              rows[i], 
-              mapping, 
-              params,
-              existingTransactions
-            );
-
-            if (params.dryRun) {
-              result.preview!.push(transaction);
-              continue;
-            }
+        const preset = await getImportPresets().save({
+          ...settings,
+          mapping: fieldMapping ? CsvFieldMappingSchema.parse(fieldMapping) : undefined,
+        });
 
-            // Check for duplicates
-            if (params.skipDuplicates && isDuplicate(transaction, existingTransactions)) {
-              result.duplicates++;
-              continue;
-            }
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                message: `Import preset for account ${preset.accountId} saved`,
+                preset,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to save import preset");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "list_import_presets",
+    description: "List the saved import presets by account",
+    inputSchema: ListImportPresetsSchema,
+    handler: async (params) => {
+      try {
+        const store = getImportPresets();
+        const presets = (await store.list())
+          .filter(preset => !params.accountId || preset.accountId === params.accountId);
 
-            // Create transaction - ensure accountId is included
-            const transactionData = {
-              ...transaction,
-              accountId: params.accountId,
-              // Also try with snake_case in case the API expects it
-              account_id: params.accountId,
-            };
-            
-            const created = await apiClient.createTransaction(transactionData);
-
-            result.imported++;
-            
-            // Add to existing transactions for future duplicate checks
-            existingTransactions.push(created);
-
-            // Auto-categorize if enabled
-            if (params.autoCategarize && !transaction.category) {
-              // This would use the categorization system from another tool
-              result.categorized++;
-            }
-          } catch (error) {
-            result.errors.push({
-              row: i + 2, // +2 for header and 0-index
-              error: error instanceof Error ? error.message : 'Unknown error',
-              data: rows[i],
-            });
-          }
-        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                totalPresets: presets.length,
+                presets,
+                presetsFile: store.filePath,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to list import presets");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "delete_import_preset",
+    description: "Delete an account's import preset, so import_csv detects the mapping again",
+    inputSchema: DeleteImportPresetSchema,
+    handler: async (params) => {
+      try {
+        const preset = await getImportPresets().delete(params.accountId);
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({
+                success: true,
+                message: `Import preset for account ${params.accountId} deleted`,
+                preset,
+              }, null, 2),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to import CSV: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to delete import preset");
       }
+    },
+  }),
+];
+
+/**
+ * Decode the upload, find the table in it and the bank profile for it, and
+ * read the rows. Settings passed in replace detection, and a profile's
+ * delimiter and column names replace what was detected.
+ */
+async function loadCsv(params: Omit<z.infer<typeof AnalyzeCSVSchema>, "sampleRows">): Promise<CsvFile> {
+  const { text, charset } = params.encoding === 'base64'
+    ? decodeCsvBytes(Buffer.from(params.csvContent, 'base64'), params.charset)
+    : { text: params.csvContent, charset: 'utf-8' as const };
+
+  const settings = {
+    delimiter: params.delimiter,
+    skipRows: params.skipRows,
+    skipTrailingRows: params.skipTrailingRows,
+    hasHeader: params.hasHeader,
+  };
+  let layout = detectCsvLayout(text, settings);
+  const match = await resolveCsvProfile(sliceCsvBody(text, layout), { profileId: params.profile, filename: params.filename });
+  const profile = match?.profile ?? null;
+
+  if (profile?.delimiter && !params.delimiter && profile.delimiter !== layout.delimiter) {
+    layout = detectCsvLayout(text, { ...settings, delimiter: profile.delimiter });
+  }
+  if (profile?.columns && params.hasHeader === undefined) {
+    layout.hasHeader = false;
+  }
+
+  const table = readCsv(sliceCsvBody(text, layout), profile, layout);
+  return { ...table, firstRow: table.firstRow + layout.skipRows, match, format: { charset, ...layout } };
+}
+
+/**
+ * Parse the table into rows keyed by column name. Profiles for exports
+ * without a header row name the columns themselves; otherwise they are
+ * numbered.
+ */
+function readCsv(csvData: string, profile: CsvProfile | null, layout: CsvLayout): CsvTable {
+  if (profile?.columns || !layout.hasHeader) {
+    const parsed = Papa.parse<string[]>(csvData, {
+      header: false,
+      delimiter: layout.delimiter,
+      skipEmptyLines: true,
+    });
+    if (parsed.errors.length > 0) {
+      throw new ToolError(`CSV parsing errors: ${parsed.errors[0].message}`, "validation");
     }
 
-    throw new Error(`Unknown tool: ${name}`);
+    const width = Math.max(0, ...parsed.data.map(cells => cells.length));
+    const columns = profile?.columns ?? Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+    return {
+      headers: columns,
+      rows: parsed.data.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i]?.trim()]))),
+      firstRow: 1,
+    };
+  }
+
+  const parsed = Papa.parse<CSVRow>(csvData, {
+    header: true,
+    dynamicTyping: false, // Keep values as strings
+    skipEmptyLines: true,
+    delimiter: layout.delimiter,
+    transformHeader: (header) => header.replace(/^\uFEFF/, '').trim(),
+  });
+  if (parsed.errors.length > 0) {
+    throw new ToolError(`CSV parsing errors: ${parsed.errors[0].message}`, "validation");
+  }
+
+  return { headers: parsed.meta.fields || [], rows: parsed.data, firstRow: 2 };
+}
+
+function isSkippedRow(row: CSVRow, profile: CsvProfile | null): boolean {
+  if (!profile?.skip) return false;
+  const value = String(row[profile.skip.column] ?? '').trim().toLowerCase();
+  return profile.skip.values.some(skipped => skipped.toLowerCase() === value);
+}
+
+interface DateFormatChoice {
+  // Undefined when each date is read on its own
+  format?: string;
+  source: 'argument' | 'preset' | 'profile' | 'detected';
+  ambiguous?: boolean;
+  candidates?: string[];
+  conflict?: [string, string];
+  warning?: string;
+}
+
+/**
+ * The format the date column is read with: the first one given, or else the
+ * one every date in the file fits. Dates that fit several formats are read
+ * day-first, like parseDate does, and reported as ambiguous. When no single
+ * format fits them all, each date is read on its own.
+ */
+function chooseDateFormat(
+  rows: CSVRow[],
+  column: string | undefined,
+  given: Array<{ format?: string; source: DateFormatChoice['source'] }>
+): DateFormatChoice {
+  const chosen = given.find(choice => choice.format);
+  if (chosen) return { format: chosen.format, source: chosen.source };
+
+  const detected = detectDateFormat(column ? rows.map(row => row[column]) : []);
+  if (detected.conflict) {
+    return {
+      source: 'detected',
+      conflict: detected.conflict,
+      warning: `No single date format reads both ${detected.conflict[0]} and ${detected.conflict[1]}; each date is read on its own. Pass dateFormat to choose one.`,
+    };
+  }
+  if (detected.ambiguous) {
+    return {
+      format: detected.candidates[0],
+      source: 'detected',
+      ambiguous: true,
+      candidates: detected.candidates,
+      warning: `Every date fits ${detected.candidates.join(' and ')}; read as ${detected.candidates[0]}. Pass dateFormat to choose another.`,
+    };
+  }
+  return { format: detected.format, source: 'detected' };
+}
+
+function parseRowDate(value: string, dateFormat?: string): Date {
+  return dateFormat ? parseDateWithFormat(value, dateFormat) : parseDate(value);
+}
+
+// Value sets banks use in a column saying which way the money went
+const DIRECTION_VALUES: Array<{ debit: string[]; credit: string[] }> = [
+  { debit: ['Af'], credit: ['Bij'] },
+  { debit: ['D', 'Debet', 'Debit'], credit: ['C', 'Credit'] },
+  { debit: ['DBIT'], credit: ['CRDT'] },
+  { debit: ['DR'], credit: ['CR'] },
+];
+
+function isAmountValue(value: string): boolean {
+  try {
+    return Number.isFinite(parseAmount(value));
+  } catch {
+    return false;
+  }
+}
+
+// The first column whose every value belongs to one direction value set
+function detectDirection(headers: string[], rows: CSVRow[]): { column: string; debit: string[]; credit: string[] } | undefined {
+  for (const header of headers) {
+    const values = rows.map(row => String(row[header] ?? '').trim().toLowerCase()).filter(Boolean);
+    if (values.length === 0) continue;
+
+    const set = DIRECTION_VALUES.find(({ debit, credit }) =>
+      values.every(value => [...debit, ...credit].some(known => known.toLowerCase() === value))
+    );
+    if (set) return { column: header, ...set };
+  }
+  return undefined;
 }
 
 function detectFieldMapping(headers: string[], sampleData: CSVRow[]): any {
   const mapping: any = {};
+
+  // Columns saying which way the money went take part in no other field
+  const direction = detectDirection(headers, sampleData);
+  const isAmountColumn = (header: string) =>
+    header !== direction?.column && sampleData.every(row => !row[header] || isAmountValue(row[header]));
+  const debitCol = headers.find(h => /debit|debet|withdrawal|money out|paid out|uitgaven|^af$/i.test(h) && isAmountColumn(h));
+  const creditCol = headers.find(h => /credit|deposit|money in|paid in|inkomsten|^bij$/i.test(h) && isAmountColumn(h));
+  const reserved = [direction?.column, debitCol, creditCol];
   
   // Common field name patterns
   const patterns = {
     date: /date|tijd|datum|posted|booked|transaction/i,
-    amount: /amount|bedrag|value|debit|credit|sum/i,
+    amount: /amount|bedrag|value|sum/i,
     description: /description|desc|omschrijving|details|memo|particulars/i,
     merchant: /merchant|payee|naam|name|vendor/i,
     category: /category|categorie|type/i,
@@ -214,6 +524,7 @@ function detectFieldMapping(headers: string[], sampleData: CSVRow[]): any {
 
   // Check headers against patterns
   for (const header of headers) {
+    if (reserved.includes(header)) continue;
     for (const [field, pattern] of Object.entries(patterns)) {
       if (pattern.test(header) && !mapping[field]) {
         mapping[field] = header;
@@ -222,16 +533,35 @@ function detectFieldMapping(headers: string[], sampleData: CSVRow[]): any {
     }
   }
 
+  // Files without a header row: recognize the columns by their values
+  const unmapped = (header: string) => !reserved.includes(header) && !Object.values(mapping).includes(header);
+  const filled = (header: string) => sampleData.some(row => row[header]);
+  if (!mapping.date) {
+    mapping.date = headers.find(h => unmapped(h) && filled(h) && sampleData.every(row => !row[h] || isValidDateFormat(row[h])));
+  }
+  if (!mapping.amount && !debitCol && !creditCol) {
+    mapping.amount = headers.find(h => unmapped(h) && filled(h) && isAmountColumn(h));
+  }
+  if (!mapping.description) {
+    mapping.description = headers.find(h => unmapped(h) && filled(h) && !isAmountColumn(h));
+  }
+
   // If no amount field found, look for debit/credit columns
-  if (!mapping.amount) {
-    const debitCol = headers.find(h => /debit|af/i.test(h));
-    const creditCol = headers.find(h => /credit|bij/i.test(h));
-    if (debitCol || creditCol) {
-      mapping.amount = debitCol || creditCol;
-      mapping.amountType = 'split';
-      mapping.debitColumn = debitCol;
-      mapping.creditColumn = creditCol;
-    }
+  if (!mapping.amount && (debitCol || creditCol)) {
+    mapping.debitColumn = debitCol;
+    mapping.creditColumn = creditCol;
+  } else if (mapping.amount && direction) {
+    mapping.direction = direction;
+  } else if (mapping.amount) {
+    // Most rows in an account are expenses, so the sign most of them carry means expense.
+    // Files with one sign throughout give no hint and keep the usual negative expenses.
+    const amounts = sampleData
+      .map(row => row[mapping.amount])
+      .filter((value): value is string => !!value && isAmountValue(value))
+      .map(value => parseAmount(value))
+      .filter(amount => amount !== 0);
+    const positive = amounts.filter(amount => amount > 0).length;
+    mapping.amountSign = positive > amounts.length / 2 && positive < amounts.length ? 'expense_positive' : 'expense_negative';
   }
 
   // Validate mapping with sample data
@@ -253,6 +583,17 @@ function detectFieldMapping(headers: string[], sampleData: CSVRow[]): any {
   return mapping;
 }
 
+// Where the sign of an imported amount comes from under a mapping
+function describeAmountDirection(mapping: any): any {
+  if (mapping.direction) {
+    return { source: 'direction', ...mapping.direction };
+  }
+  if (!mapping.amount && (mapping.debitColumn || mapping.creditColumn)) {
+    return { source: 'split', debitColumn: mapping.debitColumn, creditColumn: mapping.creditColumn };
+  }
+  return { source: 'sign', amountSign: mapping.amountSign ?? 'expense_negative' };
+}
+
 function isValidDateFormat(value: string): boolean {
   try {
     parseDate(value);
@@ -264,26 +605,10 @@ function isValidDateFormat(value: string): boolean {
 
 function analyzePatterns(data: CSVRow[], mapping: any): any {
   const patterns: any = {
-    dateFormats: new Set<string>(),
     amountFormats: new Set<string>(),
     hasNegativeAmounts: false,
-    hasHeaders: true,
-    delimiter: ',',
   };
 
-  // Analyze date formats
-  if (mapping.date) {
-    data.slice(0, 10).forEach(row => {
-      const dateValue = row[mapping.date];
-      if (dateValue) {
-        if (dateValue.match(/\d{4}-\d{2}-\d{2}/)) patterns.dateFormats.add('YYYY-MM-DD');
-        else if (dateValue.match(/\d{2}-\d{2}-\d{4}/)) patterns.dateFormats.add('DD-MM-YYYY');
-        else if (dateValue.match(/\d{2}\/\d{2}\/\d{4}/)) patterns.dateFormats.add('DD/MM/YYYY');
-        else if (dateValue.match(/\d{1,2}\/\d{1,2}\/\d{4}/)) patterns.dateFormats.add('M/D/YYYY');
-      }
-    });
-  }
-
   // Analyze amount formats
   if (mapping.amount) {
     data.slice(0, 10).forEach(row => {
@@ -298,7 +623,6 @@ function analyzePatterns(data: CSVRow[], mapping: any): any {
   }
 
   return {
-    dateFormats: Array.from(patterns.dateFormats),
     amountFormats: Array.from(patterns.amountFormats),
     hasNegativeAmounts: patterns.hasNegativeAmounts,
   };
@@ -307,8 +631,7 @@ function analyzePatterns(data: CSVRow[], mapping: any): any {
 async function processRow(
   row: CSVRow, 
   mapping: any,
-  _params: z.infer<typeof ImportCSVSchema>,
-  _existingTransactions: Transaction[]
+  options: { dateFormat?: string } = {}
 ): Promise<any> {
   const transaction: any = {};
 
@@ -316,22 +639,38 @@ async function processRow(
   if (!mapping.date || !row[mapping.date]) {
     throw new Error('Missing date field');
   }
-  const parsedDate = parseDate(row[mapping.date]);
+  const parsedDate = parseRowDate(row[mapping.date], options.dateFormat);
   transaction.date = formatDateForAPI(parsedDate);
 
-  // Parse amount
-  if (!mapping.amount || (!row[mapping.amount] && !mapping.amountType)) {
-    throw new Error('Missing amount field');
-  }
-  
+  // Imports write amounts the way create_transaction takes them: negative for expenses
   let amount: number;
-  if (mapping.amountType === 'split') {
-    // Handle separate debit/credit columns
-    const debit = row[mapping.debitColumn] ? parseAmount(row[mapping.debitColumn]) : 0;
-    const credit = row[mapping.creditColumn] ? parseAmount(row[mapping.creditColumn]) : 0;
-    amount = credit - debit; // Credit is income (negative), debit is expense (positive)
+  if (!mapping.amount && (mapping.debitColumn || mapping.creditColumn)) {
+    // Separate money-out and money-in columns; some banks write money out with a minus too
+    const debit = row[mapping.debitColumn] ? Math.abs(parseAmount(row[mapping.debitColumn])) : 0;
+    const credit = row[mapping.creditColumn] ? Math.abs(parseAmount(row[mapping.creditColumn])) : 0;
+    if (!row[mapping.debitColumn] && !row[mapping.creditColumn]) {
+      throw new Error('Missing amount field');
+    }
+    amount = credit - debit;
   } else {
+    if (!mapping.amount || !row[mapping.amount]) {
+      throw new Error('Missing amount field');
+    }
     amount = parseAmount(row[mapping.amount]);
+    if (mapping.amountSign === 'expense_positive') amount = -amount;
+  }
+
+  // Unsigned amounts with a separate Af/Bij-style column saying which way the money went
+  if (mapping.direction) {
+    const value = String(row[mapping.direction.column] ?? '').trim().toLowerCase();
+    const matches = (values: string[]) => values.some(v => v.toLowerCase() === value);
+    if (matches(mapping.direction.debit)) {
+      amount = -Math.abs(amount);
+    } else if (matches(mapping.direction.credit)) {
+      amount = Math.abs(amount);
+    } else {
+      throw new Error(`Unknown direction '${row[mapping.direction.column] ?? ''}' in column ${mapping.direction.column}`);
+    }
   }
   transaction.amount = amount.toString();
 
@@ -353,31 +692,3 @@ async function processRow(
 
   return transaction;
 }
-
-function isDuplicate(
-  transaction: any,
-  existingTransactions: Transaction[]
-): boolean {
-  const txDate = new Date(transaction.date);
-  const txAmount = parseAmount(transaction.amount);
-  
-  // Create a hash for comparison
-  const hash = createHash('md5')
-    .update(`${transaction.date}:${txAmount.toFixed(2)}:${transaction.name.toLowerCase()}`)
-    .digest('hex');
-
-  // Check for exact matches within a 7-day window
-  return existingTransactions.some(existing => {
-    const existingDate = new Date(existing.date);
-    const daysDiff = Math.abs(txDate.getTime() - existingDate.getTime()) / (1000 * 60 * 60 * 24);
-    
-    if (daysDiff > 7) return false;
-    
-    const existingAmount = parseAmount(existing.amount);
-    const existingHash = createHash('md5')
-      .update(`${existing.date}:${existingAmount.toFixed(2)}:${(existing.name || '').toLowerCase()}`)
-      .digest('hex');
-    
-    return hash === existingHash;
-  });
-}
\ No newline at end of file
@@ -1,57 +1,76 @@
+import { randomUUID } from "crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { MaybeFinanceAPI } from "../services/api-client.js";
-import { handleAccountTools } from "./accounts.js";
-import { handleTransactionTools } from "./transactions.js";
-import { handleTransactionManagementTools } from "./transaction-management.js";
-import { handleCashFlowTools } from "./cash-flow.js";
-import { handleCategoryTools } from "./categories.js";
-import { handleCSVImportTools } from "./csv-import.js";
-import { handleAutoCategorization } from "./auto-categorization.js";
+import { accountTools } from "./accounts.js";
+import { transactionTools } from "./transactions.js";
+import { transactionManagementTools } from "./transaction-management.js";
+import { cashFlowTools } from "./cash-flow.js";
+import { categoryTools } from "./categories.js";
+import { csvImportTools } from "./csv-import.js";
+import { statementImportTools } from "./statement-import.js";
+import { autoCategorizationTools } from "./auto-categorization.js";
+import { chatTools } from "./chats.js";
+import { usageTools } from "./usage.js";
+import { syncTools } from "./sync.js";
+import { operationTools } from "./operations.js";
 import { ALL_TOOLS } from "./all-tools.js";
+import { buildToolRegistry } from "./registry.js";
+import { toolErrorResult } from "../utils/errors.js";
+
+// Built at module load so a listed tool without a handler (or vice versa) fails at startup
+const registry = buildToolRegistry(ALL_TOOLS, [
+  ...accountTools,
+  ...transactionTools,
+  ...transactionManagementTools,
+  ...cashFlowTools,
+  ...categoryTools,
+  ...csvImportTools,
+  ...statementImportTools,
+  ...autoCategorizationTools,
+  ...chatTools,
+  ...usageTools,
+  ...syncTools,
+  ...operationTools,
+]);
 
 export function registerTools(server: Server, apiClient: MaybeFinanceAPI) {
-  // Register the list tools handler ONCE with ALL tools
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: ALL_TOOLS,
+      tools: registry.tools,
     };
   });
 
-  // Register the call tool handler that dispatches to appropriate handlers
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name } = request.params;
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
 
-    // Dispatch to appropriate handler based on tool name
-    if (name === "get_accounts" || name === "get_account_balance") {
-      return handleAccountTools(request, apiClient);
-    }
-    
-    if (name === "get_transactions" || name === "search_transactions" || name === "get_spending_breakdown") {
-      return handleTransactionTools(request, apiClient);
-    }
-    
-    if (name === "create_transaction" || name === "update_transaction" || 
-        name === "categorize_transaction" || name === "bulk_categorize") {
-      return handleTransactionManagementTools(request, apiClient);
-    }
-    
-    if (name === "get_cash_flow" || name === "get_rolling_cash_flow" || name === "forecast_cash_flow") {
-      return handleCashFlowTools(request, apiClient);
+    const tool = registry.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
     }
-    
-    if (name === "get_categories" || name === "create_category") {
-      return handleCategoryTools(request, apiClient);
-    }
-    
-    if (name === "import_csv" || name === "analyze_csv") {
-      return handleCSVImportTools(request, apiClient);
-    }
-    
-    if (name === "auto_categorize_all" || name === "get_categorization_rules") {
-      return handleAutoCategorization(request, apiClient);
+
+    // Bad arguments come back as a validation result so the assistant can correct them
+    const parsed = tool.inputSchema.safeParse(args ?? {});
+    if (!parsed.success) {
+      return toolErrorResult(parsed.error, `Invalid arguments for ${name}`);
     }
 
-    throw new Error(`Unknown tool: ${name}`);
+    try {
+      return await tool.handler(parsed.data, apiClient, {
+        callId: randomUUID(),
+        signal: extra.signal,
+        reportProgress: async (progress, total, message) => {
+          if (progressToken === undefined) return;
+          // Progress is informational; a client that went away must not fail the tool
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress, total, message },
+          }).catch(error => console.error(`[Progress Error] ${name}:`, error));
+        },
+      });
+    } catch (error: unknown) {
+      return toolErrorResult(error, `Failed to run ${name}`);
+    }
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { loadCategoryResolver } from "../services/category-resolver.js";
+import { getJournal } from "../services/operation-journal.js";
+import { ToolError, toolErrorResult } from "../utils/errors.js";
+import { defineTool } from "./registry.js";
+
+const ListOperationsSchema = z.object({
+  limit: z.number().int().positive().max(200).default(20).describe("Most recent operations to list"),
+  tool: z.string().optional().describe("Only list operations made by this tool"),
+});
+
+const UndoOperationSchema = z.object({
+  operationId: z.string().min(1).describe("Operation to revert, from list_operations or the tool's output"),
+  dryRun: z.boolean().default(false).describe("Show what would be restored without changing anything"),
+  force: z.boolean().default(false)
+    .describe("Also restore transactions that were changed again after the operation"),
+});
+
+export const operationTools = [
+  defineTool({
+    name: "list_operations",
+    description: "List recorded bulk changes (auto_categorize_all, bulk_categorize) that can be undone",
+    inputSchema: ListOperationsSchema,
+    handler: async (params) => {
+      try {
+        const journal = getJournal();
+        const operations = (await journal.listOperations())
+          .filter(operation => !params.tool || operation.tool === params.tool);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                journal: journal.filePath,
+                total: operations.length,
+                operations: operations.slice(0, params.limit),
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to list operations");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "undo_operation",
+    description: "Restore the categories a bulk operation changed. Transactions changed again since then are reported as conflicts and left alone unless forced",
+    inputSchema: UndoOperationSchema,
+    handler: async (params, apiClient, context) => {
+      try {
+        const journal = getJournal();
+        const operation = (await journal.listOperations()).find(op => op.operationId === params.operationId);
+        if (!operation) {
+          throw new ToolError(`Operation '${params.operationId}' not found`, "not_found");
+        }
+        // Forcing a second undo restores what the first one left as conflicts
+        if (operation.undoneBy && !params.force) {
+          throw new ToolError(
+            `Operation '${params.operationId}' was already undone by '${operation.undoneBy}'; ` +
+              "use force to also restore its remaining conflicts",
+            "validation"
+          );
+        }
+
+        const changes = await journal.getChanges(params.operationId);
+
+        // Compare with Maybe's current values, not the cache, to spot later edits
+        const checked = await Promise.all(changes.map(async change => {
+          try {
+            const current = await apiClient.getTransaction(change.transactionId, { skipCache: true });
+            return { ...change, current: current.category, missing: false };
+          } catch (error: unknown) {
+            if (error instanceof ToolError && error.code === "not_found") {
+              return { ...change, current: null, missing: true };
+            }
+            throw error;
+          }
+        }));
+
+        const conflicts = checked.filter(c => c.missing || c.current !== c.after.category);
+        const toRestore = checked.filter(c =>
+          !c.missing && c.current !== c.before.category && (params.force || c.current === c.after.category)
+        );
+
+        // Resolve every category to restore before writing anything
+        const resolver = await loadCategoryResolver(apiClient);
+        const resolutions = resolver.resolveAll(
+          toRestore.map(c => c.before.category).filter((name): name is string => name !== null)
+        );
+
+        const restored: any[] = [];
+        const failed: any[] = [];
+        if (!params.dryRun) {
+          for (const change of toRestore) {
+            const category = change.before.category;
+            try {
+              const updated = await apiClient.updateTransaction(change.transactionId, {
+                categoryId: category === null ? null : resolutions.get(category)!.categoryId,
+              });
+              await journal.record({
+                operationId: context.callId,
+                tool: "undo_operation",
+                transactionId: change.transactionId,
+                before: { category: change.current },
+                after: { category: updated.category },
+                undoes: params.operationId,
+              });
+              restored.push({ transactionId: change.transactionId, from: change.current, to: category });
+            } catch (error: any) {
+              failed.push({ transactionId: change.transactionId, error: error.message, code: error.code });
+            }
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: failed.length === 0,
+                dryRun: params.dryRun,
+                operation,
+                undoOperationId: restored.length > 0 ? context.callId : undefined,
+                summary: {
+                  transactions: changes.length,
+                  restored: params.dryRun ? 0 : restored.length,
+                  wouldRestore: params.dryRun ? toRestore.length : undefined,
+                  conflicts: conflicts.length,
+                  failed: failed.length,
+                },
+                changes: params.dryRun
+                  ? toRestore.map(c => ({ transactionId: c.transactionId, from: c.current, to: c.before.category }))
+                  : restored,
+                conflicts: conflicts.map(c => ({
+                  transactionId: c.transactionId,
+                  reason: c.missing ? "deleted" : "changed_since_operation",
+                  expected: c.after.category,
+                  current: c.missing ? undefined : c.current,
+                  restore: c.before.category,
+                  overwritten: toRestore.includes(c),
+                })),
+                failed: failed.length > 0 ? failed : undefined,
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to undo operation");
+      }
+    },
+  }),
+];
@@ -0,0 +1,101 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { MaybeFinanceAPI } from "../services/api-client.js";
+
+/**
+ * Per-call information passed to every handler
+ */
+export interface ToolCallContext {
+  // Unique for each tool call; recorded with the writes the call makes
+  callId: string;
+  // Sends an MCP progress notification when the client asked for them
+  reportProgress: (progress: number, total?: number, message?: string) => Promise<void>;
+  // Aborted when the client cancels the call
+  signal: AbortSignal;
+}
+
+/**
+ * A tool declared in one place: name, description, zod input schema and handler.
+ * The JSON schema advertised to clients is generated from the zod schema.
+ */
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  handler: (params: z.infer<S>, apiClient: MaybeFinanceAPI, context: ToolCallContext) => Promise<CallToolResult>;
+}
+
+export interface ToolRegistry {
+  tools: Tool[];
+  get(name: string): ToolDefinition | undefined;
+}
+
+// Helper that keeps the handler's params typed from the schema
+export function defineTool<S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition {
+  return definition as unknown as ToolDefinition;
+}
+
+/**
+ * Convert a zod object schema to the JSON schema shape MCP expects for tool input.
+ */
+export function toInputJsonSchema(schema: z.ZodTypeAny): Tool["inputSchema"] {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: "jsonSchema7",
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+
+  if (jsonSchema.type !== "object") {
+    throw new Error("Tool input schema must be a zod object");
+  }
+
+  return jsonSchema as Tool["inputSchema"];
+}
+
+/**
+ * Build the registry from the list of exposed tool names and the tool definitions.
+ * Throws if a listed tool has no definition, a definition is not listed, or a
+ * tool is defined twice, so drift is caught at startup instead of at call time.
+ */
+export function buildToolRegistry(listed: readonly string[], definitions: ToolDefinition[]): ToolRegistry {
+  const byName = new Map<string, ToolDefinition>();
+  const problems: string[] = [];
+
+  for (const definition of definitions) {
+    if (byName.has(definition.name)) {
+      problems.push(`Tool '${definition.name}' is defined more than once`);
+      continue;
+    }
+    byName.set(definition.name, definition);
+  }
+
+  const listedNames = new Set(listed);
+  for (const name of listed) {
+    if (!byName.has(name)) {
+      problems.push(`Tool '${name}' is listed but has no handler`);
+    }
+  }
+  for (const name of byName.keys()) {
+    if (!listedNames.has(name)) {
+      problems.push(`Tool '${name}' has a handler but is not listed`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid tool registry:\n  ${problems.join("\n  ")}`);
+  }
+
+  const tools: Tool[] = listed.map(name => {
+    const definition = byName.get(name)!;
+    return {
+      name: definition.name,
+      description: definition.description,
+      inputSchema: toInputJsonSchema(definition.inputSchema),
+    };
+  });
+
+  return {
+    tools,
+    get: (name: string) => byName.get(name),
+  };
+}
@@ -0,0 +1,139 @@
+import { z } from "zod";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { MaybeFinanceAPI } from "../services/api-client.js";
+import { ParsedStatement, StatementEntry, StatementFormat, parseMt940, parseStatement } from "../services/statement-parsers.js";
+import { ImportCandidate, ImportedTransaction, importTransactions } from "../services/transaction-importer.js";
+import { IdSchema } from "../utils/validators.js";
+import { toolErrorResult } from "../utils/errors.js";
+import { ToolCallContext, defineTool } from "./registry.js";
+
+const ImportStatementSchema = z.object({
+  accountId: IdSchema.describe("Account ID to import into"),
+  content: z.string().describe("Statement file content"),
+  encoding: z.enum(['base64', 'utf8']).default('utf8').describe("Encoding of content"),
+  filename: z.string().optional().describe("Name of the statement file, used to recognize the format"),
+  format: z.enum(['auto', 'ofx', 'camt']).default('auto')
+    .describe("ofx for OFX/QFX, camt for CAMT.053 statements and CAMT.052 reports; detected when auto"),
+  skipDuplicates: z.boolean().default(true).describe("Skip duplicate transactions"),
+  autoCategorize: z.boolean().default(false).describe("Auto-categorize imported transactions"),
+  dryRun: z.boolean().default(false).describe("Preview without importing"),
+  concurrency: z.number().int().min(1).max(10).default(4).describe("Transactions created at the same time"),
+  cursor: z.number().int().min(1).optional()
+    .describe("Continue an import that stopped early from the entry it returned as cursor"),
+});
+
+const ImportMt940Schema = ImportStatementSchema.omit({ format: true, filename: true }).extend({
+  content: z.string().describe("MT940 file content (.sta, .940)"),
+});
+
+const FORMAT_LABELS: Record<StatementFormat, string> = {
+  'ofx': 'OFX',
+  'camt.052': 'CAMT.052',
+  'camt.053': 'CAMT.053',
+  'mt940': 'MT940',
+};
+
+export const statementImportTools = [
+  defineTool({
+    name: "import_statement",
+    description: "Import transactions from an OFX/QFX or CAMT.053/CAMT.052 bank statement",
+    inputSchema: ImportStatementSchema,
+    handler: async (params, apiClient, context) => {
+      try {
+        const content = params.encoding === 'base64'
+          ? Buffer.from(params.content, 'base64').toString('utf-8')
+          : params.content;
+
+        const statement = parseStatement(content, {
+          format: params.format === 'auto' ? undefined : params.format,
+          filename: params.filename,
+        });
+
+        return await importStatement(statement, params, apiClient, context);
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to import statement");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "import_mt940",
+    description: "Import transactions from a SWIFT MT940 bank statement (.sta, .940)",
+    inputSchema: ImportMt940Schema,
+    handler: async (params, apiClient, context) => {
+      try {
+        const content = params.encoding === 'base64'
+          ? Buffer.from(params.content, 'base64').toString('utf-8')
+          : params.content;
+
+        return await importStatement(parseMt940(content), params, apiClient, context);
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to import MT940 statement");
+      }
+    },
+  }),
+];
+
+async function importStatement(
+  statement: ParsedStatement,
+  params: z.infer<typeof ImportMt940Schema>,
+  apiClient: MaybeFinanceAPI,
+  context: ToolCallContext
+): Promise<CallToolResult> {
+  // Pending entries in intraday reports can still change or disappear
+  const candidates: ImportCandidate[] = statement.entries.map(entry => entry.pending
+    ? { row: entry.index, skipped: true }
+    : {
+        row: entry.index,
+        transaction: toTransaction(entry, statement.format),
+        reference: entry.reference,
+        uniqueReference: entry.uniqueReference,
+        data: entry,
+      });
+
+  const imported = await importTransactions(apiClient, candidates, {
+    accountId: params.accountId,
+    skipDuplicates: params.skipDuplicates,
+    autoCategorize: params.autoCategorize,
+    dryRun: params.dryRun,
+    concurrency: params.concurrency,
+    cursor: params.cursor,
+    signal: context.signal,
+    onProgress: context.reportProgress,
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          statement: { format: statement.format, account: statement.account },
+          ...imported,
+        }, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * The counterparty names the transaction; references the bank gives that
+ * Maybe has no field for go into the notes
+ */
+function toTransaction(entry: StatementEntry, format: StatementFormat): ImportedTransaction {
+  const name = entry.counterpartyName || entry.description || 'Imported transaction';
+
+  const notes: string[] = [];
+  if (entry.description && entry.description !== name) notes.push(entry.description);
+  if (entry.counterpartyIban) notes.push(`Counterparty account: ${entry.counterpartyIban}`);
+  if (entry.endToEndId) notes.push(`End-to-end ID: ${entry.endToEndId}`);
+  if (entry.valueDate && entry.valueDate !== entry.bookingDate) notes.push(`Value date: ${entry.valueDate}`);
+  notes.push(`Imported from ${FORMAT_LABELS[format]} on ${new Date().toISOString().split('T')[0]}`);
+
+  return {
+    date: entry.bookingDate,
+    amount: entry.amount.toString(),
+    name,
+    merchant: entry.counterpartyName,
+    notes: notes.join('\n'),
+  };
+}
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { getMirror } from "../services/transaction-mirror.js";
+import { toolErrorResult } from "../utils/errors.js";
+import { defineTool } from "./registry.js";
+
+const SyncNowSchema = z.object({
+  full: z.boolean().default(false)
+    .describe("Re-download everything instead of only changes since the last sync; also drops deleted transactions"),
+});
+
+const SyncStatusSchema = z.object({});
+
+export const syncTools = [
+  defineTool({
+    name: "sync_now",
+    description: "Update the local transaction mirror used by analytics tools from Maybe Finance",
+    inputSchema: SyncNowSchema,
+    handler: async (params, apiClient) => {
+      try {
+        const mirror = await getMirror(apiClient);
+        const result = await mirror.sync(apiClient, { full: params.full });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                sync: result,
+                status: mirror.status(),
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to sync transactions");
+      }
+    },
+  }),
+
+  defineTool({
+    name: "sync_status",
+    description: "Show how fresh the local transaction mirror is and what it contains",
+    inputSchema: SyncStatusSchema,
+    handler: async (_params, apiClient) => {
+      try {
+        const mirror = await getMirror(apiClient);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(mirror.status(), null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to read sync status");
+      }
+    },
+  }),
+];
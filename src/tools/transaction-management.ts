@@ -1,43 +1,56 @@
-import { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { MaybeFinanceAPI } from "../services/api-client.js";
 import { IdSchema } from "../utils/validators.js";
 import { parseDate, formatDateForAPI } from "../utils/date-utils.js";
 import { parseAmount } from "../utils/parsers.js";
+import { toolErrorResult } from "../utils/errors.js";
+import { resolveCategoryId } from "../services/category-resolver.js";
+import { getJournal } from "../services/operation-journal.js";
+import { runBatch } from "../services/batch-executor.js";
+import { defineTool } from "./registry.js";
 
 const CreateTransactionSchema = z.object({
-  accountId: IdSchema,
-  date: z.string(),
-  amount: z.string(),
-  name: z.string(),
-  category: z.string().optional(),
-  merchant: z.string().optional(),
-  notes: z.string().optional(),
-  tags: z.array(z.string()).optional(),
+  accountId: IdSchema.describe("Account ID for the transaction"),
+  date: z.string().describe("Transaction date (ISO format or DD-MM-YYYY)"),
+  amount: z.string().describe("Transaction amount (negative for expenses, positive for income)"),
+  name: z.string().describe("Transaction name/description"),
+  category: z.string().optional().describe("Category name"),
+  merchant: z.string().optional().describe("Merchant name"),
+  notes: z.string().optional().describe("Additional notes"),
+  tags: z.array(z.string()).optional().describe("Transaction tags"),
 });
 
 const UpdateTransactionSchema = z.object({
-  transactionId: IdSchema,
-  category: z.string().optional(),
-  excluded: z.boolean().optional(),
-  name: z.string().optional(),
-  amount: z.string().optional(),
-  date: z.string().optional(),
-  merchant: z.string().optional(),
-  notes: z.string().optional(),
-  tags: z.array(z.string()).optional(),
+  transactionId: IdSchema.describe("Transaction ID to update"),
+  category: z.string().optional().describe("New category"),
+  excluded: z.boolean().optional().describe("Exclude from reports"),
+  name: z.string().optional().describe("New name/description"),
+  amount: z.string().optional().describe("New amount"),
+  date: z.string().optional().describe("New date (ISO format or DD-MM-YYYY)"),
+  merchant: z.string().optional().describe("New merchant name"),
+  notes: z.string().optional().describe("New notes"),
+  tags: z.array(z.string()).optional().describe("New tags (replaces existing)"),
 });
 
 const DeleteTransactionSchema = z.object({
-  transactionId: IdSchema,
+  transactionId: IdSchema.describe("Transaction ID to delete"),
 });
 
-export async function handleTransactionManagementTools(request: CallToolRequest, apiClient: MaybeFinanceAPI) {
-    const { name, arguments: args } = request.params;
+const CategorizeTransactionSchema = z.object({
+  transactionId: IdSchema.describe("Transaction ID to categorize"),
+  category: z.string().describe("Category name"),
+});
+
+const BulkCategorizeSchema = z.object({
+  transactionIds: z.array(IdSchema).describe("List of transaction IDs"),
+  category: z.string().describe("Category to apply to all"),
+});
 
-    if (name === "create_transaction") {
-      const params = CreateTransactionSchema.parse(args);
-      
+export const transactionManagementTools = [
+  defineTool({
+    name: "create_transaction",
+    description: "Create a new transaction",
+    inputSchema: CreateTransactionSchema,
+    handler: async (params, apiClient) => {
       try {
         // Parse date using robust date parser
         const parsedDate = parseDate(params.date);
@@ -46,8 +59,13 @@ export async function handleTransactionManagementTools(request: CallToolRequest,
         // Validate amount
         const parsedAmount = parseAmount(params.amount);
 
+        // Resolve the category before creating anything
+        const { category, ...fields } = params;
+        const categoryId = category ? await resolveCategoryId(apiClient, category) : undefined;
+
         const transaction = await apiClient.createTransaction({
-          ...params,
+          ...fields,
+          categoryId,
           date: formattedDate,
           amount: parsedAmount.toString(),
         });
@@ -72,17 +90,19 @@ export async function handleTransactionManagementTools(request: CallToolRequest,
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to create transaction: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to create transaction");
       }
-    }
+    },
+  }),
 
-    if (name === "update_transaction") {
-      const params = UpdateTransactionSchema.parse(args);
-      
+  defineTool({
+    name: "update_transaction",
+    description: "Update an existing transaction",
+    inputSchema: UpdateTransactionSchema,
+    handler: async (params, apiClient) => {
       try {
         // Convert date format if provided
-        const { transactionId, ...updateData } = params;
+        const { transactionId, category, ...updateData } = params;
         
         if (updateData.date) {
           const parsedDate = parseDate(updateData.date);
@@ -94,7 +114,9 @@ export async function handleTransactionManagementTools(request: CallToolRequest,
           updateData.amount = parsedAmount.toString();
         }
 
-        const transaction = await apiClient.updateTransaction(params.transactionId, updateData);
+        const categoryId = category ? await resolveCategoryId(apiClient, category) : undefined;
+
+        const transaction = await apiClient.updateTransaction(transactionId, { ...updateData, categoryId });
 
         return {
           content: [
@@ -117,14 +139,16 @@ export async function handleTransactionManagementTools(request: CallToolRequest,
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to update transaction: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to update transaction");
       }
-    }
+    },
+  }),
 
-    if (name === "delete_transaction") {
-      const params = DeleteTransactionSchema.parse(args);
-      
+  defineTool({
+    name: "delete_transaction",
+    description: "Delete a transaction",
+    inputSchema: DeleteTransactionSchema,
+    handler: async (params, apiClient) => {
       try {
         await apiClient.deleteTransaction(params.transactionId);
 
@@ -141,21 +165,19 @@ export async function handleTransactionManagementTools(request: CallToolRequest,
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to delete transaction: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to delete transaction");
       }
-    }
-
-    if (name === "categorize_transaction") {
-      const params = z.object({
-        transactionId: IdSchema,
-        category: z.string(),
-      }).parse(args);
-      
+    },
+  }),
+
+  defineTool({
+    name: "categorize_transaction",
+    description: "Quick categorization of a transaction",
+    inputSchema: CategorizeTransactionSchema,
+    handler: async (params, apiClient) => {
       try {
-        const transaction = await apiClient.updateTransaction(params.transactionId, {
-          category: params.category,
-        });
+        const categoryId = await resolveCategoryId(apiClient, params.category);
+        const transaction = await apiClient.updateTransaction(params.transactionId, { categoryId });
 
         return {
           content: [
@@ -174,28 +196,48 @@ export async function handleTransactionManagementTools(request: CallToolRequest,
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to categorize transaction: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to categorize transaction");
       }
-    }
-
-    if (name === "bulk_categorize") {
-      const params = z.object({
-        transactionIds: z.array(IdSchema),
-        category: z.string(),
-      }).parse(args);
-      
+    },
+  }),
+
+  defineTool({
+    name: "bulk_categorize",
+    description: "Categorize multiple transactions at once",
+    inputSchema: BulkCategorizeSchema,
+    handler: async (params, apiClient, context) => {
       try {
-        const results = await Promise.all(
-          params.transactionIds.map(id => 
-            apiClient.updateTransaction(id, { category: params.category })
-              .then(() => ({ id, success: true }))
-              .catch((error) => ({ id, success: false, error: error.message }))
-          )
-        );
-
-        const successful = results.filter(r => r.success).length;
+        // An unknown category fails the whole call before any transaction is touched
+        const categoryId = await resolveCategoryId(apiClient, params.category);
+        const batch = await runBatch(params.transactionIds, async id => {
+          // Read the current category first so the change can be undone
+          const before = await apiClient.getTransaction(id, { skipCache: true });
+          const updated = await apiClient.updateTransaction(id, { categoryId });
+          await getJournal().record({
+            operationId: context.callId,
+            tool: "bulk_categorize",
+            transactionId: id,
+            before: { category: before.category },
+            after: { category: updated.category },
+          });
+        }, {
+          signal: context.signal,
+          onProgress: (done, total) => context.reportProgress(done, total, `Categorized ${done} of ${total} transactions`),
+        });
+
+        const results = batch.results.map(item => item.status === "success"
+          ? { id: params.transactionIds[item.index], success: true }
+          : { id: params.transactionIds[item.index], success: false, error: item.error!.message, code: item.error!.code });
+        const successful = batch.succeeded;
         const failed = results.filter(r => !r.success);
+        // Left untouched because the batch stopped early
+        const attempted = new Set(batch.results.map(item => item.index));
+        const notProcessed = params.transactionIds.filter((_, index) => !attempted.has(index));
+
+        if (batch.cancelled) {
+          await context.reportProgress(batch.results.length, params.transactionIds.length,
+            `Cancelled after categorizing ${successful} transactions (operation ${context.callId})`);
+        }
 
         return {
           content: [
@@ -206,18 +248,20 @@ export async function handleTransactionManagementTools(request: CallToolRequest,
                   total: params.transactionIds.length,
                   successful,
                   failed: failed.length,
+                  notProcessed: notProcessed.length,
                 },
+                stoppedBy: batch.stoppedBy,
+                notProcessed: notProcessed.length > 0 ? notProcessed : undefined,
                 results,
                 category: params.category,
+                operationId: successful > 0 ? context.callId : undefined,
               }, null, 2),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to bulk categorize: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to bulk categorize");
       }
-    }
-
-    throw new Error(`Unknown tool: ${name}`);
-}
\ No newline at end of file
+    },
+  }),
+];
\ No newline at end of file
@@ -1,38 +1,50 @@
-import { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { MaybeFinanceAPI, Transaction } from "../services/api-client.js";
+import { Transaction } from "../services/api-client.js";
+import { queryMirror, MirrorQuery } from "../services/transaction-mirror.js";
 import { formatCurrency, formatPercentage } from "../utils/formatters.js";
 import { PaginationSchema, IdSchema } from "../utils/validators.js";
 import { parseDate, formatDateForAPI } from "../utils/date-utils.js";
 import { parseAmount } from "../utils/parsers.js";
+import { toolErrorResult } from "../utils/errors.js";
+import { defineTool } from "./registry.js";
 
 const GetTransactionsSchema = z.object({
-  accountId: IdSchema.optional(),
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
-  category: z.string().optional(),
-  merchant: z.string().optional(),
-  tags: z.array(z.string()).optional(),
-  excludeTransfers: z.boolean().default(false),
-  includeExcluded: z.boolean().default(false),
-  minAmount: z.number().optional(),
-  maxAmount: z.number().optional(),
+  accountId: IdSchema.optional().describe("Filter by account ID"),
+  startDate: z.string().optional().describe("Start date (ISO format or DD-MM-YYYY)"),
+  endDate: z.string().optional().describe("End date (ISO format or DD-MM-YYYY)"),
+  category: z.string().optional().describe("Filter by category"),
+  merchant: z.string().optional().describe("Filter by merchant name"),
+  tags: z.array(z.string()).optional().describe("Filter by tags"),
+  excludeTransfers: z.boolean().default(false).describe("Exclude transfer transactions"),
+  includeExcluded: z.boolean().default(false).describe("Include excluded transactions"),
+  minAmount: z.number().optional().describe("Minimum amount filter"),
+  maxAmount: z.number().optional().describe("Maximum amount filter"),
 }).merge(PaginationSchema);
 
 const SearchTransactionsSchema = z.object({
-  query: z.string().min(1),
-  accountId: IdSchema.optional(),
-  category: z.string().optional(),
-  merchant: z.string().optional(),
-  tags: z.array(z.string()).optional(),
+  query: z.string().min(1).describe("Search query"),
+  accountId: IdSchema.optional().describe("Filter by account ID"),
+  category: z.string().optional().describe("Filter by category"),
+  merchant: z.string().optional().describe("Filter by merchant"),
+  tags: z.array(z.string()).optional().describe("Filter by tags"),
 }).merge(PaginationSchema);
 
-export async function handleTransactionTools(request: CallToolRequest, apiClient: MaybeFinanceAPI) {
-    const { name, arguments: args } = request.params;
+const GetSpendingBreakdownSchema = z.object({
+  startDate: z.string().optional().describe("Start date (ISO format or DD-MM-YYYY)"),
+  endDate: z.string().optional().describe("End date (ISO format or DD-MM-YYYY)"),
+  accountId: IdSchema.optional().describe("Filter by account ID"),
+  groupBy: z.enum(["category", "merchant", "account"]).default("category")
+    .describe("Group by category, merchant, or account"),
+  excludeTransfers: z.boolean().default(true).describe("Exclude transfers from breakdown"),
+  includeIncome: z.boolean().default(false).describe("Include income in breakdown"),
+}).merge(PaginationSchema);
 
-    if (name === "get_transactions") {
-      const params = GetTransactionsSchema.parse(args);
-      
+export const transactionTools = [
+  defineTool({
+    name: "get_transactions",
+    description: "Get transactions with various filters",
+    inputSchema: GetTransactionsSchema,
+    handler: async (params, apiClient) => {
       try {
         const apiParams: any = {
           limit: params.limit,
@@ -91,14 +103,16 @@ export async function handleTransactionTools(request: CallToolRequest, apiClient
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to fetch transactions: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to fetch transactions");
       }
-    }
+    },
+  }),
 
-    if (name === "search_transactions") {
-      const params = SearchTransactionsSchema.parse(args);
-      
+  defineTool({
+    name: "search_transactions",
+    description: "Search transactions by text query",
+    inputSchema: SearchTransactionsSchema,
+    handler: async (params, apiClient) => {
       try {
         const filters = {
           accountId: params.accountId,
@@ -135,37 +149,31 @@ export async function handleTransactionTools(request: CallToolRequest, apiClient
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to search transactions: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to search transactions");
       }
-    }
+    },
+  }),
 
-    if (name === "get_spending_breakdown") {
-      const params = z.object({
-        startDate: z.string().optional(),
-        endDate: z.string().optional(),
-        accountId: IdSchema.optional(),
-        groupBy: z.enum(["category", "merchant", "account"]).default("category"),
-        excludeTransfers: z.boolean().default(true),
-        includeIncome: z.boolean().default(false),
-      }).merge(PaginationSchema).parse(args);
-      
+  defineTool({
+    name: "get_spending_breakdown",
+    description: "Get spending breakdown by category for a time period",
+    inputSchema: GetSpendingBreakdownSchema,
+    handler: async (params, apiClient) => {
       try {
-        const apiParams: any = {
-          limit: 1000, // Get more transactions for analysis
-        };
+        const query: MirrorQuery = {};
         
-        if (params.accountId) apiParams.accountId = params.accountId;
+        if (params.accountId) query.accountIds = [params.accountId];
         if (params.startDate) {
           const date = parseDate(params.startDate);
-          apiParams.startDate = formatDateForAPI(date);
+          query.startDate = formatDateForAPI(date);
         }
         if (params.endDate) {
           const date = parseDate(params.endDate);
-          apiParams.endDate = formatDateForAPI(date);
+          query.endDate = formatDateForAPI(date);
         }
         
-        const { transactions } = await apiClient.getTransactions(apiParams);
+        // Read the whole period from the local mirror so totals aren't truncated
+        const { transactions, freshness } = await queryMirror(apiClient, query);
         
         // Filter transactions
         let filtered = transactions;
@@ -237,15 +245,14 @@ export async function handleTransactionTools(request: CallToolRequest, apiClient
                     end: params.endDate || 'Present',
                   },
                 },
+                dataSource: freshness,
               }, null, 2),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to get spending breakdown: ${errorMessage}`);
+        return toolErrorResult(error, "Failed to get spending breakdown");
       }
-    }
-
-    throw new Error(`Unknown tool: ${name}`);
-}
\ No newline at end of file
+    },
+  }),
+];
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { toolErrorResult } from "../utils/errors.js";
+import { defineTool } from "./registry.js";
+
+const GetApiUsageSchema = z.object({});
+
+export const usageTools = [
+  defineTool({
+    name: "get_api_usage",
+    description: "Get API key usage and remaining rate limit quota for the Maybe Finance API",
+    inputSchema: GetApiUsageSchema,
+    handler: async (_params, apiClient) => {
+      try {
+        const usage = await apiClient.getUsage();
+        const rateLimit = usage.rate_limit;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                apiKey: usage.api_key ? {
+                  name: usage.api_key.name,
+                  scopes: usage.api_key.scopes,
+                  lastUsedAt: usage.api_key.last_used_at,
+                  createdAt: usage.api_key.created_at,
+                } : undefined,
+                rateLimit: rateLimit ? {
+                  tier: rateLimit.tier,
+                  limit: rateLimit.limit,
+                  used: rateLimit.current_count,
+                  remaining: rateLimit.remaining,
+                  resetInSeconds: rateLimit.reset_in_seconds,
+                  resetAt: rateLimit.reset_at,
+                } : undefined,
+                authenticationMethod: usage.authentication_method,
+                message: usage.message,
+                clientLimiter: apiClient.getRateLimitState(),
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolErrorResult(error, "Failed to get API usage");
+      }
+    },
+  }),
+];
@@ -0,0 +1,169 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse, Server as HttpServer } from "http";
+import { randomUUID } from "crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { MaybeFinanceAPI } from "../services/api-client.js";
+import { createServer } from "../server.js";
+
+/**
+ * Thrown by createApiClient when the request carries no usable credentials;
+ * answered with 401 instead of a server error
+ */
+export class UnauthorizedError extends Error {}
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  // Builds the API client for a new session from the request that opened it
+  createApiClient: (req: IncomingMessage) => MaybeFinanceAPI;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+
+/**
+ * Serve MCP over HTTP. Streamable HTTP clients use /mcp, legacy SSE clients
+ * open a stream on /sse and post messages to /messages?sessionId=...
+ */
+export function startHttpServer(options: HttpTransportOptions): Promise<HttpServer> {
+  const sessions = new Map<string, Session>();
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close().catch(() => {});
+  };
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req);
+      } catch {
+        sendJsonRpcError(res, 400, "Parse error: invalid JSON", -32700);
+        return;
+      }
+    }
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "No valid session ID provided");
+      return;
+    }
+
+    const server = createServer(options.createApiClient(req));
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (req: IncomingMessage, res: ServerResponse) => {
+    const server = createServer(options.createApiClient(req));
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, { server, transport });
+
+    res.on("close", () => {
+      closeSession(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get("sessionId") || "";
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+    try {
+      if (url.pathname === MCP_PATH && ["GET", "POST", "DELETE"].includes(req.method || "")) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === "GET") {
+        await handleSseStream(req, res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else if (url.pathname === "/health" && req.method === "GET") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ status: "ok", sessions: sessions.size }));
+      } else {
+        res.writeHead(404).end();
+      }
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        if (!res.headersSent) sendJsonRpcError(res, 401, error.message);
+        return;
+      }
+      console.error("[HTTP Error]", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  httpServer.on("close", () => {
+    for (const sessionId of Array.from(sessions.keys())) {
+      closeSession(sessionId);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve(httpServer));
+  });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf-8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code: number = -32000): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  }));
+}
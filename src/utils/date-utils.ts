@@ -129,6 +129,78 @@ export function parseDate(dateStr: string): Date {
   throw new Error(`Unable to parse date: ${dateStr}`);
 }
 
+/**
+ * Parse a date in one known format (date-fns tokens, e.g. yyyyMMdd or
+ * dd/MM/yyyy), for files whose format is known rather than guessed
+ */
+export function parseDateWithFormat(dateStr: string, formatStr: string): Date {
+  const date = parse((dateStr || '').trim(), formatStr, new Date());
+  if (!isValid(date)) {
+    throw new Error(`Date '${dateStr}' does not match format ${formatStr}`);
+  }
+  // A two-digit year read with yyyy comes out as year 25
+  if (!isPlausibleYear(date)) {
+    throw new Error(`Date '${dateStr}' read with format ${formatStr} gives year ${date.getFullYear()}`);
+  }
+  return date;
+}
+
+// Same range parseDate accepts
+function isPlausibleYear(date: Date): boolean {
+  return date.getFullYear() >= 1900 && date.getFullYear() <= 2100;
+}
+
+// Date formats in files, day-first before month-first like parseDate
+const FILE_DATE_FORMATS = [
+  'yyyy-MM-dd', 'yyyy/MM/dd', 'yyyy.MM.dd', 'yyyyMMdd',
+  'dd-MM-yyyy', 'dd/MM/yyyy', 'dd.MM.yyyy',
+  'MM-dd-yyyy', 'MM/dd/yyyy', 'MM.dd.yyyy',
+  'dd-MM-yy', 'dd/MM/yy', 'dd.MM.yy',
+  'MM-dd-yy', 'MM/dd/yy',
+  'dd MMM yyyy', 'dd-MMM-yyyy', 'MMM dd, yyyy',
+].flatMap(date => [date, `${date} HH:mm`, `${date} HH:mm:ss`]);
+
+export interface DateFormatDetection {
+  // The one format every date fits
+  format?: string;
+  // Formats every date fits; more than one means day and month can't be told apart
+  candidates: string[];
+  ambiguous: boolean;
+  // Two dates no single format reads, e.g. 13/04/2025 and 04/13/2025
+  conflict?: [string, string];
+}
+
+function fitsFormat(dateStr: string, formatStr: string): boolean {
+  const date = parse(dateStr, formatStr, new Date());
+  return isValid(date) && isPlausibleYear(date);
+}
+
+/**
+ * Find the format of a column of dates from all of them rather than one at
+ * a time: 03/04/2025 alone could be either order, but not in a file that
+ * also has 13/04/2025. Values no format reads are left out.
+ */
+export function detectDateFormat(values: string[]): DateFormatDetection {
+  let candidates = FILE_DATE_FORMATS;
+  let recognized = 0;
+  // The date that last ruled formats out, reported with one that conflicts with it
+  let narrowedBy = '';
+
+  for (const value of values.map(v => (v || '').trim()).filter(Boolean)) {
+    const remaining = candidates.filter(candidate => fitsFormat(value, candidate));
+    if (remaining.length === 0) {
+      if (!FILE_DATE_FORMATS.some(candidate => fitsFormat(value, candidate))) continue;
+      return { candidates: [], ambiguous: false, conflict: [narrowedBy, value] };
+    }
+    if (remaining.length < candidates.length || recognized === 0) narrowedBy = value;
+    candidates = remaining;
+    recognized++;
+  }
+
+  if (recognized === 0) return { candidates: [], ambiguous: false };
+  return { format: candidates.length === 1 ? candidates[0] : undefined, candidates, ambiguous: candidates.length > 1 };
+}
+
 /**
  * Format date to YYYY-MM-DD for API
  */
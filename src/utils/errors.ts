@@ -0,0 +1,104 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ZodError } from "zod";
+
+/**
+ * Machine-readable error codes returned to the client with tool failures
+ */
+export type ToolErrorCode =
+  | "auth"
+  | "not_found"
+  | "validation"
+  | "rate_limited"
+  | "upstream_unavailable"
+  | "cancelled"
+  | "internal";
+
+export interface ToolErrorIssue {
+  path: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Error carrying a tool error code. Thrown by the API client for HTTP failures
+ * and by handlers for problems they detect themselves.
+ */
+export class ToolError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ToolErrorCode,
+    public readonly status?: number,
+    public readonly issues?: ToolErrorIssue[]
+  ) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+/**
+ * Thrown by handlers that stop because the client cancelled the request
+ */
+export function cancelledError(): ToolError {
+  return new ToolError("Cancelled by the client", "cancelled");
+}
+
+/**
+ * Map an HTTP status from the Maybe API to a tool error code
+ */
+export function codeForStatus(status?: number): ToolErrorCode {
+  if (status === undefined) return "upstream_unavailable";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404) return "not_found";
+  if (status === 400 || status === 422) return "validation";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "upstream_unavailable";
+  return "internal";
+}
+
+/**
+ * Flatten zod issues into path/message pairs the assistant can act on
+ */
+export function formatZodIssues(error: ZodError): ToolErrorIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join(".") || "(root)",
+    message: issue.message,
+    code: issue.code,
+  }));
+}
+
+/**
+ * Build an MCP tool result with `isError: true` describing the failure
+ */
+export function toolErrorResult(error: unknown, context: string): CallToolResult {
+  let code: ToolErrorCode = "internal";
+  let status: number | undefined;
+  let issues: ToolErrorIssue[] | undefined;
+  let message = error instanceof Error ? error.message : "Unknown error";
+
+  if (error instanceof ToolError) {
+    code = error.code;
+    status = error.status;
+    issues = error.issues;
+  } else if (error instanceof ZodError) {
+    code = "validation";
+    issues = formatZodIssues(error);
+    message = issues.map(issue => `${issue.path}: ${issue.message}`).join("; ");
+  }
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          error: {
+            code,
+            message: `${context}: ${message}`,
+            status,
+            issues,
+          },
+        }, null, 2),
+      },
+    ],
+  };
+}
@@ -58,26 +58,6 @@ export function parseAmount(amount: string | number): number {
   return isNegative ? -Math.abs(parsed) : parsed;
 }
 
-/**
- * Parse amount with classification context
- * For Maybe Finance: negative amounts are often income, positive are expenses
- */
-export function parseAmountWithClassification(
-  amount: string | number, 
-  classification?: string
-): number {
-  const value = parseAmount(amount);
-  
-  // If classification is provided, ensure sign matches Maybe Finance convention
-  if (classification === 'income' && value > 0) {
-    return -value; // Income should be negative
-  } else if (classification === 'expense' && value < 0) {
-    return Math.abs(value); // Expense should be positive
-  }
-  
-  return value;
-}
-
 /**
  * Extract account ID from transaction object
  */
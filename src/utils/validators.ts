@@ -11,8 +11,8 @@ export const DateRangeSchema = z.object({
 });
 
 export const PaginationSchema = z.object({
-  limit: z.number().int().positive().max(100).default(20),
-  offset: z.number().int().nonnegative().default(0),
+  limit: z.number().int().positive().max(100).default(20).describe("Number of results per page"),
+  offset: z.number().int().nonnegative().default(0).describe("Number of results to skip"),
 });
 
 export const AmountRangeSchema = z.object({
@@ -0,0 +1,150 @@
+import { runBatch } from '../src/services/batch-executor.js';
+import { ToolError, ToolErrorCode } from '../src/utils/errors.js';
+
+const ITEMS = ['a', 'b', 'c', 'd', 'e'];
+
+// Fails the first time each listed item is tried, with the given code
+function failingOnce(failures: Record<string, ToolErrorCode>) {
+  const attempts = new Map<string, number>();
+  return jest.fn(async (item: string) => {
+    const attempt = (attempts.get(item) ?? 0) + 1;
+    attempts.set(item, attempt);
+    if (failures[item] && attempt === 1) {
+      throw new ToolError(`${item} failed`, failures[item]);
+    }
+    return item.toUpperCase();
+  });
+}
+
+describe('runBatch', () => {
+  it('runs every item and returns the results in item order', async () => {
+    const batch = await runBatch(ITEMS, async item => item.toUpperCase(), { concurrency: 3 });
+
+    expect(batch.results.map(r => r.value)).toEqual(['A', 'B', 'C', 'D', 'E']);
+    expect(batch.succeeded).toBe(5);
+    expect(batch.failed).toBe(0);
+    expect(batch.cursor).toBeNull();
+    expect(batch.cancelled).toBe(false);
+  });
+
+  describe.each<ToolErrorCode>(['rate_limited', 'upstream_unavailable'])('retries a transient %s error', code => {
+    it('and succeeds on the next attempt', async () => {
+      const worker = failingOnce({ b: code });
+
+      const batch = await runBatch(ITEMS, worker, { concurrency: 1, retryDelayMs: 0 });
+
+      expect(batch.results[1]).toEqual({ index: 1, status: 'success', value: 'B', attempts: 2 });
+      expect(worker).toHaveBeenCalledTimes(6);
+    });
+
+    it('not at all when retries is 0', async () => {
+      const worker = failingOnce({ b: code });
+
+      const batch = await runBatch(ITEMS, worker, { concurrency: 1, retries: 0, retryDelayMs: 0 });
+
+      expect(batch.results[1]).toMatchObject({ status: 'failed', error: { code }, attempts: 1 });
+    });
+  });
+
+  it.each<ToolErrorCode>(['validation', 'not_found', 'internal'])('does not retry %s errors', async code => {
+    const worker = failingOnce({ b: code });
+
+    const batch = await runBatch(ITEMS, worker, { concurrency: 1, retryDelayMs: 0 });
+
+    expect(batch.results[1]).toEqual({ index: 1, status: 'failed', error: { message: 'b failed', code }, attempts: 1 });
+    expect(batch.succeeded).toBe(4);
+    expect(batch.cursor).toBeNull();
+    expect(batch.stoppedBy).toBeUndefined();
+  });
+
+  it('gives up on a transient error after the last retry', async () => {
+    const worker = jest.fn(async (item: string) => {
+      if (item === 'b') throw new ToolError('Server error', 'upstream_unavailable');
+      return item;
+    });
+
+    const batch = await runBatch(ITEMS, worker, { concurrency: 1, retries: 2, retryDelayMs: 0 });
+
+    expect(batch.results[1]).toMatchObject({ status: 'failed', attempts: 3 });
+    expect(worker.mock.calls.filter(([item]) => item === 'b')).toHaveLength(3);
+    expect(batch.cursor).toBeNull();
+  });
+
+  it('stops on an auth error and returns the failed item as the cursor', async () => {
+    const worker = jest.fn(async (item: string) => {
+      if (item === 'c') throw new ToolError('Invalid API key', 'auth');
+      return item;
+    });
+
+    const batch = await runBatch(ITEMS, worker, { concurrency: 1, retryDelayMs: 0 });
+
+    expect(batch.results.map(r => r.status)).toEqual(['success', 'success', 'failed']);
+    expect(batch.results[2].attempts).toBe(1);
+    expect(batch.cursor).toBe(2);
+    expect(batch.stoppedBy).toEqual({ message: 'Invalid API key', code: 'auth' });
+    expect(batch.cancelled).toBe(false);
+    expect(worker).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops once rate limit retries run out', async () => {
+    const worker = jest.fn(async (item: string) => {
+      if (item === 'b') throw new ToolError('Rate limit exceeded', 'rate_limited');
+      return item;
+    });
+
+    const batch = await runBatch(ITEMS, worker, { concurrency: 1, retries: 1, retryDelayMs: 0 });
+
+    expect(batch.results).toHaveLength(2);
+    expect(batch.cursor).toBe(1);
+    expect(batch.stoppedBy?.code).toBe('rate_limited');
+  });
+
+  it('resumes from startAt', async () => {
+    const worker = jest.fn(async (item: string) => item);
+
+    const batch = await runBatch(ITEMS, worker, { startAt: 2 });
+
+    expect(batch.results.map(r => r.index)).toEqual([2, 3, 4]);
+    expect(worker.mock.calls.map(([item]) => item)).toEqual(['c', 'd', 'e']);
+    expect(batch.cursor).toBeNull();
+  });
+
+  it('stops starting items when the signal aborts and reports the cancel', async () => {
+    const controller = new AbortController();
+    const worker = jest.fn(async (item: string) => {
+      if (item === 'b') controller.abort();
+      return item;
+    });
+
+    const batch = await runBatch(ITEMS, worker, { concurrency: 1, signal: controller.signal });
+
+    // The item in flight when the abort came still finishes
+    expect(batch.results.map(r => r.status)).toEqual(['success', 'success']);
+    expect(batch.cursor).toBe(2);
+    expect(batch.cancelled).toBe(true);
+    expect(batch.stoppedBy?.code).toBe('cancelled');
+  });
+
+  it('does not report a cancel that came after the last item', async () => {
+    const controller = new AbortController();
+    const worker = jest.fn(async (item: string) => {
+      if (item === 'e') controller.abort();
+      return item;
+    });
+
+    const batch = await runBatch(ITEMS, worker, { concurrency: 1, signal: controller.signal });
+
+    expect(batch.succeeded).toBe(5);
+    expect(batch.cursor).toBeNull();
+    expect(batch.cancelled).toBe(false);
+    expect(batch.stoppedBy).toBeUndefined();
+  });
+
+  it('reports progress after each item', async () => {
+    const onProgress = jest.fn();
+
+    await runBatch(ITEMS, async item => item, { concurrency: 2, startAt: 1, onProgress });
+
+    expect(onProgress.mock.calls).toEqual([[1, 4], [2, 4], [3, 4], [4, 4]]);
+  });
+});
@@ -0,0 +1,186 @@
+import { Transaction } from '../src/services/api-client.js';
+import {
+  CategorizationEngine,
+  CategorizationRule,
+  DEFAULT_RULES,
+  RecurrenceIndex,
+  Subscription,
+} from '../src/services/categorization-engine.js';
+
+function transaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx-1',
+    date: '2025-03-05',
+    name: null,
+    amount: '-12.99',
+    currency: 'EUR',
+    classification: 'expense',
+    category: null,
+    merchant: null,
+    tags: [],
+    excluded: false,
+    account: { id: 'acc-1', name: 'Checking', account_type: 'depository' },
+    created_at: '2025-03-05T00:00:00Z',
+    updated_at: '2025-03-05T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function subscription(merchant: string, amount: number): Subscription {
+  return {
+    merchant,
+    amount,
+    frequency: 'monthly',
+    lastDate: new Date('2025-02-05'),
+    nextExpectedDate: new Date('2025-03-05'),
+    confidence: 1,
+    transactions: [],
+  };
+}
+
+function builtInRule(id: string): CategorizationRule {
+  const rule = DEFAULT_RULES.find(r => r.id === id);
+  if (!rule) throw new Error(`No built-in rule '${id}'`);
+  return rule;
+}
+
+// One payment per built-in rule that requires a recurring payment
+const RECURRING_RULE_CASES = [
+  { ruleId: 'streaming', merchant: 'Netflix', name: 'Netflix.com', amount: 12.99 },
+  { ruleId: 'gym', merchant: 'Basic-Fit', name: 'Basic-Fit fitness membership', amount: 24.99 },
+  { ruleId: 'utilities_internet', merchant: 'Ziggo', name: 'Ziggo internet', amount: 55 },
+  { ruleId: 'insurance', merchant: 'Zilveren Kruis', name: 'Zilveren Kruis zorgverzekering', amount: 142.5 },
+];
+
+describe('RecurrenceIndex', () => {
+  const index = new RecurrenceIndex([subscription('Netflix', 12.99), subscription('Ziggo', 55)]);
+
+  it('treats payments near a subscription amount at the same merchant as recurring', () => {
+    expect(index.isRecurring(transaction({ merchant: 'Netflix', amount: '-12.99' }))).toBe(true);
+    expect(index.isRecurring(transaction({ merchant: 'Netflix', amount: '-13.99' }))).toBe(true);
+  });
+
+  it('matches merchants regardless of case and spacing', () => {
+    expect(index.isRecurring(transaction({ merchant: '  ZIGGO ', amount: '-55.00' }))).toBe(true);
+  });
+
+  it('falls back to the transaction name when there is no merchant', () => {
+    expect(index.isRecurring(transaction({ name: 'Ziggo', amount: '-55.00' }))).toBe(true);
+  });
+
+  it('does not treat a one-off amount at a subscription merchant as recurring', () => {
+    expect(index.isRecurring(transaction({ merchant: 'Netflix', amount: '-40.00' }))).toBe(false);
+  });
+
+  it('does not treat merchants without a subscription as recurring', () => {
+    expect(index.isRecurring(transaction({ merchant: 'Spotify', amount: '-12.99' }))).toBe(false);
+  });
+
+  it('is built from monthly payments found in the history', async () => {
+    const engine = new CategorizationEngine();
+    const history = ['2024-12-05', '2025-01-05', '2025-02-05'].map((date, i) =>
+      transaction({ id: `netflix-${i}`, merchant: 'Netflix', amount: '-12.99', date })
+    );
+
+    const built = await engine.buildRecurrenceIndex(history);
+
+    expect(built.size).toBe(1);
+    expect(built.isRecurring(transaction({ merchant: 'Netflix', amount: '-12.99' }))).toBe(true);
+    expect(built.isRecurring(transaction({ merchant: 'Netflix', amount: '-45.00' }))).toBe(false);
+  });
+});
+
+describe('evaluateRule', () => {
+  const engine = new CategorizationEngine();
+
+  describe.each(RECURRING_RULE_CASES)('built-in $ruleId rule', ({ ruleId, merchant, name, amount }) => {
+    const rule = builtInRule(ruleId);
+    const recurrence = new RecurrenceIndex([subscription(merchant, amount)]);
+    const payment = transaction({ merchant, name, amount: `-${amount.toFixed(2)}` });
+
+    it('requires a recurring payment', () => {
+      expect(rule.conditions.isRecurring).toBe(true);
+    });
+
+    it('matches a recurring payment', () => {
+      const evaluation = engine.evaluateRule(rule, engine.parseTransaction(payment, { recurrence }));
+
+      expect(evaluation.matched).toBe(true);
+      expect(evaluation.conditions).toContainEqual({ condition: 'isRecurring', passed: true, actual: true });
+    });
+
+    it('does not match a one-off payment at the same merchant', () => {
+      const oneOff = transaction({ merchant, name, amount: `-${(amount * 2).toFixed(2)}` });
+      const evaluation = engine.evaluateRule(rule, engine.parseTransaction(oneOff, { recurrence }));
+
+      expect(evaluation.matched).toBe(false);
+      expect(evaluation.conditions).toContainEqual({ condition: 'isRecurring', passed: false, actual: false });
+    });
+
+    it('does not match a merchant without payment history', () => {
+      const evaluation = engine.evaluateRule(rule, engine.parseTransaction(payment, { recurrence: new RecurrenceIndex([]) }));
+
+      expect(evaluation.matched).toBe(false);
+    });
+
+    it('does not match when there is no history to tell recurrence from', () => {
+      const evaluation = engine.evaluateRule(rule, engine.parseTransaction(payment));
+
+      expect(evaluation.matched).toBe(false);
+      expect(evaluation.conditions).toContainEqual({ condition: 'isRecurring', passed: false, actual: null });
+    });
+
+    describe('limited to an account type', () => {
+      const limited: CategorizationRule = {
+        ...rule,
+        conditions: { ...rule.conditions, accountType: ['Depository'] },
+      };
+
+      it('matches payments from that account type', () => {
+        const evaluation = engine.evaluateRule(limited, engine.parseTransaction(payment, { recurrence }));
+
+        expect(evaluation.matched).toBe(true);
+        expect(evaluation.conditions).toContainEqual({ condition: 'accountType', passed: true, actual: 'depository' });
+      });
+
+      it('does not match payments from another account type', () => {
+        const fromCard = transaction({
+          merchant,
+          name,
+          amount: `-${amount.toFixed(2)}`,
+          account: { id: 'acc-2', name: 'Visa', account_type: 'credit_card' },
+        });
+        const evaluation = engine.evaluateRule(limited, engine.parseTransaction(fromCard, { recurrence }));
+
+        expect(evaluation.matched).toBe(false);
+        expect(evaluation.conditions).toContainEqual({ condition: 'accountType', passed: false, actual: 'credit_card' });
+      });
+
+      it('does not match payments without an account', () => {
+        const withoutAccount = transaction({ merchant, name, amount: `-${amount.toFixed(2)}`, account: undefined });
+        const evaluation = engine.evaluateRule(limited, engine.parseTransaction(withoutAccount, { recurrence }));
+
+        expect(evaluation.matched).toBe(false);
+      });
+    });
+  });
+});
+
+describe('explain', () => {
+  const engine = new CategorizationEngine();
+  const recurrence = new RecurrenceIndex([subscription('Netflix', 12.99)]);
+
+  it('files a recurring streaming payment under the streaming rule', async () => {
+    const explanation = await engine.explain(transaction({ merchant: 'Netflix', amount: '-12.99' }), { recurrence });
+
+    expect(explanation.source).toBe('rule');
+    expect(explanation.matchedRuleId).toBe('streaming');
+  });
+
+  it('does not file a one-off purchase from a streaming merchant as a subscription', async () => {
+    const explanation = await engine.explain(transaction({ merchant: 'Netflix', amount: '-35.00' }), { recurrence });
+
+    expect(explanation.matchedRuleId).toBeUndefined();
+    expect(explanation.category).not.toBe('Subscriptions');
+  });
+});
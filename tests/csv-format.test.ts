@@ -0,0 +1,171 @@
+import { CsvLayout, decodeCsvBytes, detectCsvLayout, sliceCsvBody } from '../src/services/csv-format.js';
+
+const LAYOUT_CASES: Array<{ name: string; lines: string[]; layout: CsvLayout }> = [
+  {
+    name: 'a plain comma-separated file',
+    lines: [
+      'Date,Description,Amount',
+      '2025-03-01,Coffee Company,-3.50',
+      '2025-03-02,Werkgever BV,2500.00',
+    ],
+    layout: { delimiter: ',', skipRows: 0, skipTrailingRows: 0, hasHeader: true },
+  },
+  {
+    name: 'a semicolon file with account details above the table',
+    lines: [
+      'Rekeningnummer;NL12INGB0001234567',
+      'Periode;01-03-2025 t/m 31-03-2025',
+      '',
+      'Datum;Omschrijving;Bedrag;Saldo',
+      '01-03-2025;Albert Heijn;-45,20;954,80',
+      '02-03-2025;Werkgever BV;2500,00;3454,80',
+      '03-03-2025;Coffee Company;-3,50;3451,30',
+    ],
+    layout: { delimiter: ';', skipRows: 3, skipTrailingRows: 0, hasHeader: true },
+  },
+  {
+    name: 'a file with a preamble line as wide as the table',
+    lines: [
+      'Periode;01-03-2025;31-03-2025;EUR',
+      'Datum;Omschrijving;Bedrag;Saldo',
+      '01-03-2025;Albert Heijn;-45,20;954,80',
+      '02-03-2025;Werkgever BV;2500,00;3454,80',
+    ],
+    layout: { delimiter: ';', skipRows: 1, skipTrailingRows: 0, hasHeader: true },
+  },
+  {
+    name: 'a file with a totals line as wide as the table',
+    lines: [
+      'Date,Description,Amount',
+      '2025-03-01,Coffee Company,-3.50',
+      '2025-03-02,Werkgever BV,2500.00',
+      'Total,,2496.50',
+    ],
+    layout: { delimiter: ',', skipRows: 0, skipTrailingRows: 1, hasHeader: true },
+  },
+  {
+    name: 'a file with balance lines narrower than the table',
+    lines: [
+      'Datum;Omschrijving;Bedrag',
+      '01-03-2025;Albert Heijn;-45,20',
+      '02-03-2025;Werkgever BV;2500,00',
+      '',
+      'Beginsaldo;1000,00',
+      'Eindsaldo;3454,80',
+      '',
+    ],
+    layout: { delimiter: ';', skipRows: 0, skipTrailingRows: 3, hasHeader: true },
+  },
+  {
+    name: 'a headerless ABN AMRO TAB export',
+    lines: [
+      '123456789\tEUR\t20250301\t1000,00\t954,80\t20250301\t-45,20\tBEA   NR:XXX   Albert Heijn',
+      '123456789\tEUR\t20250302\t954,80\t3454,80\t20250302\t2500,00\tSEPA Overboeking Werkgever BV',
+    ],
+    layout: { delimiter: '\t', skipRows: 0, skipTrailingRows: 0, hasHeader: false },
+  },
+  {
+    name: 'a file with quoted cells holding the delimiter',
+    lines: [
+      '"Date";"Description";"Amount"',
+      '"2025-03-01";"Albert Heijn; Utrecht";"-45,20"',
+      '"2025-03-02";"Werkgever BV";"2500,00"',
+    ],
+    layout: { delimiter: ';', skipRows: 0, skipTrailingRows: 0, hasHeader: true },
+  },
+  {
+    name: 'a pipe-separated file with a byte order mark and Windows line endings',
+    lines: [
+      '\uFEFFDate|Description|Amount\r',
+      '2025-03-01|Coffee Company|-3.50\r',
+      '2025-03-02|Werkgever BV|2500.00\r',
+    ],
+    layout: { delimiter: '|', skipRows: 0, skipTrailingRows: 0, hasHeader: true },
+  },
+];
+
+describe('detectCsvLayout', () => {
+  it.each(LAYOUT_CASES)('detects the layout of $name', ({ lines, layout }) => {
+    expect(detectCsvLayout(lines.join('\n'))).toEqual(layout);
+  });
+
+  it('keeps the settings passed in', () => {
+    const text = LAYOUT_CASES[1].lines.join('\n');
+
+    expect(detectCsvLayout(text, { skipRows: 2, hasHeader: false })).toEqual({
+      delimiter: ';',
+      skipRows: 2,
+      skipTrailingRows: 0,
+      hasHeader: false,
+    });
+    expect(detectCsvLayout(text, { delimiter: ',' }).delimiter).toBe(',');
+  });
+
+  it('reads a file with a single line', () => {
+    expect(detectCsvLayout('Date,Description,Amount')).toEqual({
+      delimiter: ',',
+      skipRows: 0,
+      skipTrailingRows: 0,
+      hasHeader: true,
+    });
+  });
+});
+
+describe('sliceCsvBody', () => {
+  it('leaves out the preamble and summary lines', () => {
+    const text = [
+      'Rekeningnummer;NL12INGB0001234567',
+      'Datum;Omschrijving;Bedrag',
+      '01-03-2025;Albert Heijn;-45,20',
+      'Totaal;;-45,20',
+    ].join('\r\n');
+
+    expect(sliceCsvBody(text, detectCsvLayout(text))).toBe('Datum;Omschrijving;Bedrag\n01-03-2025;Albert Heijn;-45,20');
+  });
+});
+
+describe('decodeCsvBytes', () => {
+  const TEXT = 'Omschrijving;Bedrag\nCafé de Paris;€ 4,50';
+
+  it('reads UTF-16LE with a byte order mark', () => {
+    const bytes = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(TEXT, 'utf16le')]);
+
+    expect(decodeCsvBytes(bytes)).toEqual({ text: TEXT, charset: 'utf-16le' });
+  });
+
+  it('reads UTF-16BE with a byte order mark', () => {
+    const bytes = Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from(TEXT, 'utf16le').swap16()]);
+
+    expect(decodeCsvBytes(bytes)).toEqual({ text: TEXT, charset: 'utf-16be' });
+  });
+
+  it('reads UTF-8 with a byte order mark', () => {
+    const bytes = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(TEXT, 'utf-8')]);
+
+    expect(decodeCsvBytes(bytes)).toEqual({ text: TEXT, charset: 'utf-8' });
+  });
+
+  it('reads valid UTF-8 without a byte order mark', () => {
+    expect(decodeCsvBytes(Buffer.from(TEXT, 'utf-8'))).toEqual({ text: TEXT, charset: 'utf-8' });
+  });
+
+  it('falls back to Windows-1252 for bytes that are not UTF-8', () => {
+    // "é" is 0xE9 and "€" 0x80 in Windows-1252
+    const bytes = Buffer.concat([
+      Buffer.from('Omschrijving;Bedrag\nCaf', 'ascii'),
+      Buffer.from([0xe9]),
+      Buffer.from(' de Paris;', 'ascii'),
+      Buffer.from([0x80]),
+      Buffer.from(' 4,50', 'ascii'),
+    ]);
+
+    expect(decodeCsvBytes(bytes)).toEqual({ text: TEXT, charset: 'windows-1252' });
+  });
+
+  it('uses the charset passed in', () => {
+    expect(decodeCsvBytes(Buffer.from([0x43, 0x61, 0x66, 0xc3, 0xa9]), 'windows-1252')).toEqual({
+      text: 'CafÃ©',
+      charset: 'windows-1252',
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Account, Category, MaybeFinanceAPI, Transaction } from '../src/services/api-client.js';
+import { configureCategoryAliases } from '../src/services/category-resolver.js';
+import { configureCsvProfiles } from '../src/services/csv-profiles.js';
+import { configureImportIndex } from '../src/services/import-index.js';
+import { configureImportPresets } from '../src/services/import-presets.js';
+import { configureRuleStore } from '../src/services/rule-store.js';
+import { configureMirror } from '../src/services/transaction-mirror.js';
+import { csvImportTools } from '../src/tools/csv-import.js';
+import { ToolCallContext } from '../src/tools/registry.js';
+import { ToolError } from '../src/utils/errors.js';
+
+const ACCOUNT: Account = {
+  id: '6f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f',
+  name: 'Checking',
+  balance: '1000.00',
+  currency: 'EUR',
+  classification: 'asset',
+  account_type: 'depository',
+};
+
+const CATEGORIES: Category[] = [
+  { id: 'cat-required', name: 'Required Purchases', isSystem: false },
+  { id: 'cat-subscriptions', name: 'Subscriptions', isSystem: false },
+  { id: 'cat-discretionary', name: 'Discretionary Spending', isSystem: false },
+];
+
+const CSV = [
+  'Date,Description,Amount,Category',
+  '2025-03-01,Albert Heijn supermarkt,-45.20,',
+  '2025-03-02,Netflix,-12.99,',
+  '2025-03-03,Cinema ticket,-15.00,discretionary spending',
+  '2025-03-04,Random shop,-35.00,',
+].join('\n');
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function transaction(overrides: Partial<Transaction>): Transaction {
+  return {
+    id: 'tx',
+    date: daysAgo(1),
+    name: null,
+    amount: '0',
+    currency: 'EUR',
+    classification: 'expense',
+    category: null,
+    tags: [],
+    excluded: false,
+    account: { id: ACCOUNT.id, name: ACCOUNT.name, account_type: ACCOUNT.account_type },
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+// Three monthly Netflix payments make Netflix a recurring payment
+const HISTORY = [90, 60, 30].map(days =>
+  transaction({ id: `netflix-${days}`, date: daysAgo(days), name: 'Netflix', amount: '-12.99' })
+);
+
+// The account holds `existing` plus every transaction the client creates
+function mockClient(existing: Transaction[] = []) {
+  const created: Array<Record<string, unknown>> = [];
+  const stored: Transaction[] = [...existing];
+  const client = {
+    getClientId: () => 'csv-import-test',
+    getAccounts: jest.fn(async () => [ACCOUNT]),
+    getCategories: jest.fn(async () => CATEGORIES),
+    getAllTransactions: jest.fn(async () => [...stored]),
+    async *iterateTransactions() {
+      yield HISTORY;
+    },
+    createTransaction: jest.fn(async (data: Record<string, unknown>) => {
+      created.push(data);
+      const createdTransaction = transaction({
+        id: `created-${created.length}`,
+        date: data.date as string,
+        name: data.name as string,
+        amount: data.amount as string,
+        category: (data.category as string) ?? null,
+      });
+      stored.push(createdTransaction);
+      return createdTransaction;
+    }),
+  };
+  return { client, apiClient: client as unknown as MaybeFinanceAPI, created };
+}
+
+const context: ToolCallContext = {
+  callId: 'call-1',
+  reportProgress: async () => {},
+  signal: new AbortController().signal,
+};
+
+async function importCsv(apiClient: MaybeFinanceAPI, args: Record<string, unknown>) {
+  const tool = csvImportTools.find(t => t.name === 'import_csv')!;
+  const params = tool.inputSchema.parse({
+    accountId: ACCOUNT.id,
+    csvContent: CSV,
+    fieldMapping: { date: 'Date', description: 'Description', amount: 'Amount', category: 'Category' },
+    ...args,
+  });
+  const result = await tool.handler(params, apiClient, context);
+  const text = (result.content[0] as { text: string }).text;
+  return { isError: result.isError, body: JSON.parse(text) };
+}
+
+describe('import_csv with autoCategorize', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'csv-import-test-'));
+    configureRuleStore(path.join(directory, 'rules.json'));
+    configureCsvProfiles(path.join(directory, 'csv-profiles.json'));
+    configureImportPresets(path.join(directory, 'import-presets.json'));
+    configureCategoryAliases(path.join(directory, 'category-aliases.json'));
+    configureMirror({});
+  });
+
+  beforeEach(() => {
+    configureImportIndex(path.join(directory, `import-index-${Date.now()}.jsonl`));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('categorizes rows without a category before creating them', async () => {
+    const { apiClient, created } = mockClient();
+
+    const { isError, body } = await importCsv(apiClient, { autoCategorize: true });
+
+    expect(isError).toBeFalsy();
+    expect(body.imported).toBe(4);
+    expect(body.categorized).toBe(3);
+    expect(body.byCategory).toEqual({
+      'Required Purchases': 1,
+      'Subscriptions': 1,
+      'Discretionary Spending': 1,
+    });
+    expect(body.results).toEqual([
+      { row: 2, status: 'imported', transactionId: 'created-1', category: 'Required Purchases', ruleId: 'groceries_nl' },
+      { row: 3, status: 'imported', transactionId: 'created-2', category: 'Subscriptions', ruleId: 'streaming' },
+      { row: 4, status: 'imported', transactionId: 'created-3' },
+      { row: 5, status: 'imported', transactionId: 'created-4', category: 'Discretionary Spending' },
+    ]);
+
+    expect(created.map(data => [data.name, data.category, data.categoryId, data.accountId])).toEqual([
+      ['Albert Heijn supermarkt', 'Required Purchases', 'cat-required', ACCOUNT.id],
+      ['Netflix', 'Subscriptions', 'cat-subscriptions', ACCOUNT.id],
+      // The file's own category is kept and matched to the Maybe category
+      ['Cinema ticket', 'Discretionary Spending', 'cat-discretionary', ACCOUNT.id],
+      ['Random shop', 'Discretionary Spending', 'cat-discretionary', ACCOUNT.id],
+    ]);
+  });
+
+  it('previews suggested categories on a dry run, with the deprecated autoCategarize flag', async () => {
+    const { apiClient, client } = mockClient();
+
+    const { body } = await importCsv(apiClient, { autoCategarize: true, dryRun: true });
+
+    expect(client.createTransaction).not.toHaveBeenCalled();
+    expect(body.categorized).toBe(3);
+    expect(body.preview[1]).toMatchObject({
+      name: 'Netflix',
+      suggestedCategory: { category: 'Subscriptions', source: 'rule', ruleId: 'streaming', categoryId: 'cat-subscriptions' },
+    });
+  });
+
+  it('leaves rows uncategorized when autoCategorize is off', async () => {
+    const { apiClient, created } = mockClient();
+
+    const { body } = await importCsv(apiClient, {});
+
+    expect(body.categorized).toBe(0);
+    expect(created.map(data => data.categoryId)).toEqual([undefined, undefined, 'cat-discretionary', undefined]);
+  });
+
+  it('fails when the account does not exist', async () => {
+    const { apiClient, client } = mockClient();
+
+    const { isError, body } = await importCsv(apiClient, {
+      accountId: 'b2a1c3d4-0000-4000-8000-000000000000',
+      autoCategorize: true,
+    });
+
+    expect(isError).toBe(true);
+    expect(body.error.code).toBe('not_found');
+    expect(client.createTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('import_csv create failures', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'csv-import-test-'));
+    configureRuleStore(path.join(directory, 'rules.json'));
+    configureCsvProfiles(path.join(directory, 'csv-profiles.json'));
+    configureImportPresets(path.join(directory, 'import-presets.json'));
+    configureCategoryAliases(path.join(directory, 'category-aliases.json'));
+    configureMirror({});
+    configureImportIndex(path.join(directory, 'import-index.jsonl'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('does not retry a create that timed out after the server wrote it', async () => {
+    const { apiClient, client, created } = mockClient();
+    client.createTransaction.mockImplementationOnce(async (data: Record<string, unknown>) => {
+      created.push(data);
+      throw new ToolError('Request timed out', 'upstream_unavailable');
+    });
+
+    const { body } = await importCsv(apiClient, { concurrency: 1 });
+
+    expect(client.createTransaction).toHaveBeenCalledTimes(4);
+    expect(created.map(data => data.name)).toEqual(['Albert Heijn supermarkt', 'Netflix', 'Cinema ticket', 'Random shop']);
+    expect(body.imported).toBe(3);
+    expect(body.results[0]).toEqual({ row: 2, status: 'failed' });
+    expect(body.errors[0]).toMatchObject({ row: 2, code: 'upstream_unavailable', attempts: 1 });
+  });
+});
+
+describe('import_csv duplicate detection', () => {
+  let directory: string;
+
+  // Two identical coffees on one day and a third the day after
+  const COFFEES = [
+    'Date,Description,Amount',
+    '2025-03-01,Coffee Company,-3.50',
+    '2025-03-01,Coffee Company,-3.50',
+    '2025-03-02,Coffee Company,-3.50',
+  ].join('\n');
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'csv-import-test-'));
+    configureRuleStore(path.join(directory, 'rules.json'));
+    configureCsvProfiles(path.join(directory, 'csv-profiles.json'));
+    configureImportPresets(path.join(directory, 'import-presets.json'));
+    configureCategoryAliases(path.join(directory, 'category-aliases.json'));
+    configureMirror({});
+  });
+
+  beforeEach(() => {
+    configureImportIndex(path.join(directory, `import-index-${Date.now()}.jsonl`));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('reports every row as a duplicate when the same file is imported again', async () => {
+    const { apiClient, client } = mockClient();
+    await importCsv(apiClient, {});
+    client.createTransaction.mockClear();
+
+    const { body } = await importCsv(apiClient, {});
+
+    expect(client.createTransaction).not.toHaveBeenCalled();
+    expect(body.imported).toBe(0);
+    expect(body.duplicates).toBe(4);
+    expect(body.results.map((r: { status: string }) => r.status)).toEqual(['duplicate', 'duplicate', 'duplicate', 'duplicate']);
+    expect(body.nearDuplicates).toEqual([]);
+  });
+
+  it('keeps two identical rows on one day as two transactions', async () => {
+    const { apiClient, created } = mockClient();
+
+    const { body } = await importCsv(apiClient, { csvContent: COFFEES, fieldMapping: undefined });
+    const again = await importCsv(apiClient, { csvContent: COFFEES, fieldMapping: undefined });
+
+    expect(body.imported).toBe(3);
+    expect(created.map(data => data.date)).toEqual(['2025-03-01', '2025-03-01', '2025-03-02']);
+    expect(again.body.results).toEqual([
+      { row: 2, status: 'duplicate', transactionId: 'created-1' },
+      { row: 3, status: 'duplicate', transactionId: 'created-2' },
+      { row: 4, status: 'duplicate', transactionId: 'created-3' },
+    ]);
+  });
+
+  it('numbers identical rows the same way when resuming from a cursor', async () => {
+    const { apiClient, client, created } = mockClient();
+    client.createTransaction
+      .mockImplementationOnce(client.createTransaction.getMockImplementation()!)
+      .mockImplementationOnce(async () => {
+        throw new ToolError('Invalid API key', 'auth');
+      });
+
+    const first = await importCsv(apiClient, { csvContent: COFFEES, fieldMapping: undefined, concurrency: 1 });
+    const resumed = await importCsv(apiClient, {
+      csvContent: COFFEES,
+      fieldMapping: undefined,
+      cursor: first.body.stoppedEarly.cursor,
+    });
+    const again = await importCsv(apiClient, { csvContent: COFFEES, fieldMapping: undefined });
+
+    expect(first.body.imported).toBe(1);
+    expect(first.body.stoppedEarly).toMatchObject({ code: 'auth', cursor: 3 });
+    // The second coffee of the day is still a new row, not the first one again
+    expect(resumed.body.imported).toBe(2);
+    expect(resumed.body.results.map((r: { row: number; status: string }) => [r.row, r.status])).toEqual([
+      [3, 'imported'],
+      [4, 'imported'],
+    ]);
+    expect(created).toHaveLength(3);
+    expect(again.body.duplicates).toBe(3);
+  });
+
+  it('reports a row matching a hand-entered transaction as a near-duplicate', async () => {
+    const handEntered = transaction({ id: 'manual-1', date: '2025-03-03', name: 'ALBERT HEIJN', amount: '-45.20' });
+    const { apiClient, created } = mockClient([handEntered]);
+
+    const { body } = await importCsv(apiClient, {});
+
+    expect(body.imported).toBe(3);
+    expect(body.results[0]).toEqual({ row: 2, status: 'near_duplicate', transactionId: 'manual-1' });
+    expect(body.nearDuplicates).toEqual([
+      {
+        row: 2,
+        transaction: expect.objectContaining({ date: '2025-03-01', amount: '-45.2', name: 'Albert Heijn supermarkt' }),
+        existing: { id: 'manual-1', date: '2025-03-03', amount: '-45.20', name: 'ALBERT HEIJN' },
+      },
+    ]);
+    expect(created.map(data => data.name)).not.toContain('Albert Heijn supermarkt');
+  });
+
+  it('does not look for duplicates with skipDuplicates off', async () => {
+    const handEntered = transaction({ id: 'manual-1', date: '2025-03-03', name: 'ALBERT HEIJN', amount: '-45.20' });
+    const { apiClient, client } = mockClient([handEntered]);
+    await importCsv(apiClient, {});
+
+    const { body } = await importCsv(apiClient, { skipDuplicates: false });
+
+    expect(body.imported).toBe(4);
+    expect(body.nearDuplicates).toEqual([]);
+    expect(client.createTransaction).toHaveBeenCalledTimes(7);
+  });
+});
@@ -0,0 +1,194 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MaybeFinanceAPI } from '../src/services/api-client.js';
+import { configureCategoryAliases } from '../src/services/category-resolver.js';
+import { BUILT_IN_PROFILES, CsvProfile, LoadedProfile, configureCsvProfiles, detectProfile } from '../src/services/csv-profiles.js';
+import { configureImportIndex } from '../src/services/import-index.js';
+import { configureImportPresets } from '../src/services/import-presets.js';
+import { csvImportTools } from '../src/tools/csv-import.js';
+import { ToolCallContext } from '../src/tools/registry.js';
+
+const ACCOUNT_ID = '6f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f';
+
+// A short export per bank, with the file name the bank gives it and the transactions it holds
+const BANK_EXPORTS = [
+  {
+    profileId: 'ing-nl',
+    matchedBy: 'header',
+    filename: 'NL12INGB0001234567_01-03-2025_31-03-2025.csv',
+    csv: [
+      '"Datum","Naam / Omschrijving","Rekening","Tegenrekening","Code","Af Bij","Bedrag (EUR)","Mutatiesoort","Mededelingen"',
+      '"20250301","Albert Heijn 1234","NL12INGB0001234567","","BA","Af","45,20","Betaalautomaat","Pasvolgnr: 001"',
+      '"20250302","Werkgever BV","NL12INGB0001234567","NL98RABO0123456789","OV","Bij","2.500,00","Overschrijving","Salaris maart"',
+    ].join('\r\n'),
+    transactions: [
+      ['2025-03-01', -45.2, 'Albert Heijn 1234'],
+      ['2025-03-02', 2500, 'Werkgever BV'],
+    ],
+  },
+  {
+    profileId: 'rabobank',
+    matchedBy: 'header',
+    filename: 'CSV_A_20250331_123456.csv',
+    csv: [
+      '"IBAN/BBAN","Munt","BIC","Volgnr","Datum","Rentedatum","Bedrag","Saldo na trn","Tegenrekening IBAN/BBAN","Naam tegenpartij","Omschrijving-1"',
+      '"NL98RABO0123456789","EUR","RABONL2U","000000000000001234","2025-03-01","2025-03-01","-12,50","+987,50","","Jumbo Utrecht","Boodschappen"',
+      '"NL98RABO0123456789","EUR","RABONL2U","000000000000001235","2025-03-02","2025-03-02","+1.500,00","+2.487,50","NL12INGB0001234567","Werkgever BV","Salaris"',
+    ].join('\n'),
+    transactions: [
+      ['2025-03-01', -12.5, 'Boodschappen'],
+      ['2025-03-02', 1500, 'Salaris'],
+    ],
+  },
+  {
+    profileId: 'abn-amro',
+    matchedBy: 'firstLine',
+    filename: 'TXT250331123456.TAB',
+    csv: [
+      '123456789\tEUR\t20250301\t1000,00\t954,80\t20250301\t-45,20\tBEA   NR:XXX   Albert Heijn',
+      '123456789\tEUR\t20250302\t954,80\t3454,80\t20250302\t2500,00\tSEPA Overboeking Werkgever BV',
+    ].join('\n'),
+    transactions: [
+      ['2025-03-01', -45.2, 'BEA   NR:XXX   Albert Heijn'],
+      ['2025-03-02', 2500, 'SEPA Overboeking Werkgever BV'],
+    ],
+  },
+  {
+    profileId: 'bunq',
+    matchedBy: 'header',
+    filename: 'bunq-statement_2025-03-01_2025-03-31.csv',
+    csv: [
+      '"Date","Interest Date","Amount","Account","Counterparty","Name","Description"',
+      '"2025-03-01","2025-03-01","-12.99","NL00BUNQ0123456789","NL00BUNQ9876543210","Spotify","Spotify Premium"',
+      '"2025-03-02","2025-03-02","250.00","NL00BUNQ0123456789","NL12INGB0001234567","J. Jansen","Terugbetaling etentje"',
+    ].join('\n'),
+    transactions: [
+      ['2025-03-01', -12.99, 'Spotify Premium'],
+      ['2025-03-02', 250, 'Terugbetaling etentje'],
+    ],
+  },
+  {
+    profileId: 'revolut',
+    matchedBy: 'header',
+    filename: 'account-statement_2025-03-01_2025-03-31_en-us_1a2b3c.csv',
+    csv: [
+      'Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance',
+      'CARD_PAYMENT,Current,2025-03-01 10:15:00,2025-03-02 09:00:00,Amazon,-23.45,0.00,EUR,COMPLETED,976.55',
+      'CARD_PAYMENT,Current,2025-03-03 12:00:00,,Bol.com,-10.00,0.00,EUR,PENDING,',
+      'TOPUP,Current,2025-03-04 08:00:00,2025-03-04 08:00:01,Top-Up by *1234,100.00,0.00,EUR,COMPLETED,1076.55',
+    ].join('\n'),
+    transactions: [
+      ['2025-03-02', -23.45, 'Amazon'],
+      ['2025-03-04', 100, 'Top-Up by *1234'],
+    ],
+  },
+];
+
+const BUILT_IN: LoadedProfile[] = BUILT_IN_PROFILES.map(profile => ({ profile, builtIn: true }));
+
+describe('BUILT_IN_PROFILES', () => {
+  it('has one profile per bank export', () => {
+    expect(BUILT_IN_PROFILES.map(p => p.id).sort()).toEqual(BANK_EXPORTS.map(e => e.profileId).sort());
+  });
+});
+
+describe('detectProfile', () => {
+  it.each(BANK_EXPORTS)('recognizes $profileId exports by their content', ({ profileId, matchedBy, csv }) => {
+    const match = detectProfile(BUILT_IN, csv);
+
+    expect(match?.profile.id).toBe(profileId);
+    expect(match?.matchedBy).toBe(matchedBy);
+    expect(match?.builtIn).toBe(true);
+  });
+
+  it.each(BANK_EXPORTS)('recognizes $profileId exports by their file name', ({ profileId, filename }) => {
+    const match = detectProfile(BUILT_IN, 'Column A,Column B\n1,2', path.join('/home/user/Downloads', filename));
+
+    expect(match?.profile.id).toBe(profileId);
+    expect(match?.matchedBy).toBe('filename');
+  });
+
+  it('matches headers regardless of case, spacing and a byte order mark', () => {
+    const csv = '\uFEFF date ,INTEREST DATE,Amount,Account,Counterparty,Name,Description\n';
+
+    expect(detectProfile(BUILT_IN, csv)?.profile.id).toBe('bunq');
+  });
+
+  it('prefers the header over the file name', () => {
+    const ing = BANK_EXPORTS[0];
+
+    const match = detectProfile(BUILT_IN, ing.csv, BANK_EXPORTS[1].filename);
+
+    expect(match).toMatchObject({ profile: { id: 'ing-nl' }, matchedBy: 'header' });
+  });
+
+  it('prefers a user profile over a built-in one', () => {
+    const custom: CsvProfile = {
+      ...BUILT_IN_PROFILES.find(p => p.id === 'bunq')!,
+      id: 'bunq-business',
+      name: 'bunq Business',
+    };
+
+    const match = detectProfile([{ profile: custom, builtIn: false }, ...BUILT_IN], BANK_EXPORTS[3].csv);
+
+    expect(match).toMatchObject({ profile: { id: 'bunq-business' }, builtIn: false });
+  });
+
+  it('returns null for an export it does not know', () => {
+    expect(detectProfile(BUILT_IN, 'When,What,How much\n2025-03-01,Coffee,-3.50', 'export.csv')).toBeNull();
+  });
+});
+
+describe('import_csv with a built-in profile', () => {
+  let directory: string;
+
+  const context: ToolCallContext = {
+    callId: 'call-1',
+    reportProgress: async () => {},
+    signal: new AbortController().signal,
+  };
+  const apiClient = {
+    getClientId: () => 'csv-profiles-test',
+    getCategories: jest.fn(async () => []),
+    getAllTransactions: jest.fn(async () => []),
+    createTransaction: jest.fn(),
+  } as unknown as MaybeFinanceAPI;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'csv-profiles-test-'));
+    configureCsvProfiles(path.join(directory, 'csv-profiles.json'));
+    configureImportPresets(path.join(directory, 'import-presets.json'));
+    configureCategoryAliases(path.join(directory, 'category-aliases.json'));
+    configureImportIndex(path.join(directory, 'import-index.jsonl'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function previewImport(csv: string) {
+    const tool = csvImportTools.find(t => t.name === 'import_csv')!;
+    const params = tool.inputSchema.parse({ accountId: ACCOUNT_ID, csvContent: csv, dryRun: true });
+    const result = await tool.handler(params, apiClient, context);
+    const text = (result.content[0] as { text: string }).text;
+    return { isError: result.isError, body: JSON.parse(text) };
+  }
+
+  it.each(BANK_EXPORTS)('reads $profileId exports with signed amounts', async ({ profileId, csv, transactions }) => {
+    const { isError, body } = await previewImport(csv);
+
+    expect(isError).toBeFalsy();
+    expect(body.profile.id).toBe(profileId);
+    expect(body.errors).toEqual([]);
+    expect(body.preview.map((t: { date: string; amount: string; name: string }) => [t.date, Number(t.amount), t.name]))
+      .toEqual(transactions);
+  });
+
+  it('leaves out Revolut payments that never completed', async () => {
+    const { body } = await previewImport(BANK_EXPORTS[4].csv);
+
+    expect(body.skipped).toBe(1);
+    expect(body.results).toContainEqual({ row: 3, status: 'skipped' });
+  });
+});
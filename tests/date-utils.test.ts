@@ -0,0 +1,69 @@
+import { detectDateFormat, parseDateWithFormat } from '../src/utils/date-utils.js';
+
+describe('parseDateWithFormat', () => {
+  it('reads a date with the given format', () => {
+    expect(parseDateWithFormat('01-03-2025', 'dd-MM-yyyy').toISOString()).toBe('2025-03-01T00:00:00.000Z');
+    expect(parseDateWithFormat('12/31/2100', 'MM/dd/yyyy').toISOString()).toBe('2100-12-31T00:00:00.000Z');
+  });
+
+  it('rejects a date the format does not read', () => {
+    expect(() => parseDateWithFormat('31-02-2025', 'dd-MM-yyyy')).toThrow("Date '31-02-2025' does not match format dd-MM-yyyy");
+  });
+
+  it.each([
+    ['01-03-25', 25],
+    ['31-12-1899', 1899],
+    ['01-01-2101', 2101],
+  ])('rejects %s, which gives year %i', (value, year) => {
+    expect(() => parseDateWithFormat(value, 'dd-MM-yyyy')).toThrow(`read with format dd-MM-yyyy gives year ${year}`);
+  });
+
+  it('accepts the first year of the range', () => {
+    expect(parseDateWithFormat('01-01-1900', 'dd-MM-yyyy').getFullYear()).toBe(1900);
+  });
+});
+
+describe('detectDateFormat', () => {
+  it.each([
+    [['2025-03-04', '2025-12-31'], 'yyyy-MM-dd'],
+    [['01-03-25', '15-03-25'], 'dd-MM-yy'],
+    [['20250301', '20250315'], 'yyyyMMdd'],
+    [['03/04/2025 10:15', '13/04/2025 08:00'], 'dd/MM/yyyy HH:mm'],
+  ])('detects the format of %j', (values, format) => {
+    expect(detectDateFormat(values)).toEqual({ format, candidates: [format], ambiguous: false });
+  });
+
+  it('reports dates whose day and month are both 12 or less as ambiguous', () => {
+    expect(detectDateFormat(['03/04/2025', '05/06/2025', '12/12/2025'])).toEqual({
+      candidates: ['dd/MM/yyyy', 'MM/dd/yyyy'],
+      ambiguous: true,
+    });
+  });
+
+  it('reads the day first once the first number goes above 12', () => {
+    expect(detectDateFormat(['03/04/2025', '13/04/2025'])).toEqual({
+      format: 'dd/MM/yyyy',
+      candidates: ['dd/MM/yyyy'],
+      ambiguous: false,
+    });
+  });
+
+  it('reads the month first once the second number goes above 12', () => {
+    expect(detectDateFormat(['03/04/2025', '04/13/2025']).format).toBe('MM/dd/yyyy');
+  });
+
+  it.each([
+    [['13/04/2025', '04/13/2025']],
+    [['04/13/2025', '13/04/2025']],
+  ])('reports the dates of %j as a conflict', values => {
+    expect(detectDateFormat(values)).toEqual({ candidates: [], ambiguous: false, conflict: values });
+  });
+
+  it('skips values that are not dates', () => {
+    expect(detectDateFormat(['not a date', '', '13/04/2025']).format).toBe('dd/MM/yyyy');
+  });
+
+  it('finds no format for dates outside the year range', () => {
+    expect(detectDateFormat(['01/01/1899'])).toEqual({ candidates: [], ambiguous: false });
+  });
+});
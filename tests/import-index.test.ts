@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ImportIndex, importFingerprint, normalizeName } from '../src/services/import-index.js';
+
+const ACCOUNT_ID = 'account-1';
+
+const ROW = {
+  date: '2025-03-01',
+  amount: -3.5,
+  counterparty: 'Coffee Company',
+  occurrence: 1,
+};
+
+describe('normalizeName', () => {
+  it.each([
+    ['ALBERT HEIJN 1234', 'albert heijn 1234'],
+    ['Albert Heijn  1234.', 'albert heijn 1234'],
+    ['  Café-Bar  ', 'café bar'],
+  ])('normalizes %j', (name, normalized) => {
+    expect(normalizeName(name)).toBe(normalized);
+  });
+});
+
+describe('importFingerprint', () => {
+  it('is the same for the same row', () => {
+    expect(importFingerprint(ACCOUNT_ID, ROW)).toBe(importFingerprint(ACCOUNT_ID, { ...ROW }));
+  });
+
+  it('compares counterparties by their normalized name', () => {
+    expect(importFingerprint(ACCOUNT_ID, { ...ROW, counterparty: 'COFFEE  COMPANY.' })).toBe(importFingerprint(ACCOUNT_ID, ROW));
+  });
+
+  it.each([
+    ['account', 'account-2', ROW],
+    ['date', ACCOUNT_ID, { ...ROW, date: '2025-03-02' }],
+    ['amount', ACCOUNT_ID, { ...ROW, amount: -3.51 }],
+    ['counterparty', ACCOUNT_ID, { ...ROW, counterparty: 'Starbucks' }],
+    ['occurrence', ACCOUNT_ID, { ...ROW, occurrence: 2 }],
+  ])('differs by %s', (_, accountId, row) => {
+    expect(importFingerprint(accountId, row)).not.toBe(importFingerprint(ACCOUNT_ID, ROW));
+  });
+
+  it('identifies a row by a unique reference alone', () => {
+    const row = { ...ROW, reference: 'FITID-1', uniqueReference: true };
+
+    expect(importFingerprint(ACCOUNT_ID, { ...row, date: '2025-03-05', amount: -4, counterparty: 'Other', occurrence: 3 }))
+      .toBe(importFingerprint(ACCOUNT_ID, row));
+  });
+
+  it('keys a reference that may repeat with the date, amount and occurrence', () => {
+    const row = { ...ROW, reference: 'NONUNIQUE-1' };
+
+    expect(importFingerprint(ACCOUNT_ID, { ...row, counterparty: 'Other' })).toBe(importFingerprint(ACCOUNT_ID, row));
+    expect(importFingerprint(ACCOUNT_ID, { ...row, date: '2025-03-02' })).not.toBe(importFingerprint(ACCOUNT_ID, row));
+    expect(importFingerprint(ACCOUNT_ID, { ...row, occurrence: 2 })).not.toBe(importFingerprint(ACCOUNT_ID, row));
+  });
+
+  it('ignores a blank reference', () => {
+    expect(importFingerprint(ACCOUNT_ID, { ...ROW, reference: '  ', uniqueReference: true })).toBe(importFingerprint(ACCOUNT_ID, ROW));
+  });
+});
+
+describe('ImportIndex', () => {
+  let directory: string;
+  let index: ImportIndex;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'import-index-test-'));
+    index = new ImportIndex(path.join(directory, 'nested', 'import-index.jsonl'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('loads nothing before anything was recorded', async () => {
+    expect(await index.load(ACCOUNT_ID)).toEqual(new Map());
+  });
+
+  it('loads the recorded rows of one account', async () => {
+    await index.record({ fingerprint: 'a', accountId: ACCOUNT_ID, transactionId: 'tx-1' });
+    await index.record({ fingerprint: 'b', accountId: 'account-2', transactionId: 'tx-2' });
+
+    expect(await index.load(ACCOUNT_ID)).toEqual(new Map([['a', 'tx-1']]));
+  });
+
+  it('keeps the latest transaction for a fingerprint imported again', async () => {
+    await index.record({ fingerprint: 'a', accountId: ACCOUNT_ID, transactionId: 'tx-1' });
+    await index.record({ fingerprint: 'a', accountId: ACCOUNT_ID, transactionId: 'tx-2' });
+
+    expect(await index.load(ACCOUNT_ID)).toEqual(new Map([['a', 'tx-2']]));
+  });
+
+  it('writes one line per row when rows are recorded at the same time', async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, i) =>
+      index.record({ fingerprint: `f${i}`, accountId: ACCOUNT_ID, transactionId: `tx-${i}` })
+    ));
+
+    const lines = (await fs.readFile(index.filePath, 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(20);
+    expect((await index.load(ACCOUNT_ID)).size).toBe(20);
+  });
+
+  it('skips a partly written last line', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await index.record({ fingerprint: 'a', accountId: ACCOUNT_ID, transactionId: 'tx-1' });
+    await fs.appendFile(index.filePath, '{"fingerprint":"b","accountId":"acc');
+
+    expect(await index.load(ACCOUNT_ID)).toEqual(new Map([['a', 'tx-1']]));
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('Skipping unreadable line'));
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,232 @@
+import { promises as fs, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MaybeFinanceAPI } from '../src/services/api-client.js';
+import { configureCategoryAliases } from '../src/services/category-resolver.js';
+import { configureImportIndex } from '../src/services/import-index.js';
+import { ToolCallContext } from '../src/tools/registry.js';
+import { statementImportTools } from '../src/tools/statement-import.js';
+
+const ACCOUNT_ID = '6f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f';
+const TODAY = new Date().toISOString().split('T')[0];
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures', name), 'utf-8');
+}
+
+// Keeps what it creates, so importing again finds the transactions in Maybe
+function mockClient() {
+  const created: Array<Record<string, unknown>> = [];
+  const client = {
+    getClientId: () => 'statement-import-test',
+    getCategories: jest.fn(async () => []),
+    getAllTransactions: jest.fn(async () => created),
+    createTransaction: jest.fn(async (data: Record<string, unknown>) => {
+      const transaction = { id: `created-${created.length + 1}`, ...data };
+      created.push(transaction);
+      return transaction;
+    }),
+  };
+  return { client, apiClient: client as unknown as MaybeFinanceAPI };
+}
+
+const context: ToolCallContext = {
+  callId: 'call-1',
+  reportProgress: async () => {},
+  signal: new AbortController().signal,
+};
+
+async function callTool(name: string, apiClient: MaybeFinanceAPI, args: Record<string, unknown>) {
+  const tool = statementImportTools.find(t => t.name === name)!;
+  const params = tool.inputSchema.parse({ accountId: ACCOUNT_ID, ...args });
+  const result = await tool.handler(params, apiClient, context);
+  const text = (result.content[0] as { text: string }).text;
+  return { isError: result.isError, body: JSON.parse(text) };
+}
+
+describe('import_statement', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'statement-import-test-'));
+    configureCategoryAliases(path.join(directory, 'category-aliases.json'));
+  });
+
+  beforeEach(() => {
+    configureImportIndex(path.join(directory, `import-index-${Date.now()}.jsonl`));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('names transactions after the counterparty and keeps the bank details in the notes', async () => {
+    const { apiClient } = mockClient();
+
+    const { body } = await callTool('import_statement', apiClient, { content: fixture('camt053.xml'), dryRun: true });
+
+    expect(body.statement).toEqual({ format: 'camt.053', account: 'NL12INGB0001234567' });
+    expect(body.preview).toEqual([
+      {
+        date: '2025-03-03',
+        amount: '-45.2',
+        name: 'Albert Heijn BV',
+        merchant: 'Albert Heijn BV',
+        notes: [
+          'Boodschappen filiaal 1234',
+          'Counterparty account: NL44RABO0123456789',
+          'End-to-end ID: E2E-20250301-01',
+          'Value date: 2025-03-01',
+          `Imported from CAMT.053 on ${TODAY}`,
+        ].join('\n'),
+      },
+      {
+        date: '2025-03-03',
+        amount: '2500',
+        name: 'Werkgever BV',
+        merchant: 'Werkgever BV',
+        // No end-to-end ID was given, and the value date is the booking date
+        notes: ['Salaris maart', 'Counterparty account: NL91ABNA0417164300', `Imported from CAMT.053 on ${TODAY}`].join('\n'),
+      },
+    ]);
+  });
+
+  it('names transactions without a counterparty after their description', async () => {
+    const { apiClient } = mockClient();
+
+    const { body } = await callTool('import_statement', apiClient, { content: fixture('ofx-xml.ofx'), dryRun: true });
+
+    expect(body.preview[0]).toMatchObject({ name: 'Coffee & Co', notes: `Card purchase\nImported from OFX on ${TODAY}` });
+  });
+
+  it('skips pending entries of an intraday report', async () => {
+    const { apiClient, client } = mockClient();
+
+    const { body } = await callTool('import_statement', apiClient, { content: fixture('camt052.xml'), filename: 'report.xml' });
+
+    expect(body.statement.format).toBe('camt.052');
+    expect(body.imported).toBe(1);
+    expect(body.skipped).toBe(1);
+    expect(body.results).toEqual([
+      { row: 1, status: 'imported', transactionId: 'created-1' },
+      { row: 2, status: 'skipped' },
+    ]);
+    expect(client.createTransaction).toHaveBeenCalledTimes(1);
+    expect(client.createTransaction).toHaveBeenCalledWith(expect.objectContaining({ name: 'Bol.com', amount: '-19.99' }));
+  });
+
+  it('reads base64 content', async () => {
+    const { apiClient } = mockClient();
+    const content = Buffer.from(fixture('ofx-sgml.ofx')).toString('base64');
+
+    const { body } = await callTool('import_statement', apiClient, { content, encoding: 'base64', dryRun: true });
+
+    expect(body.statement).toEqual({ format: 'ofx', account: 'NL12INGB0001234567' });
+    expect(body.preview).toHaveLength(2);
+  });
+
+  it('fails on a file in an unknown format', async () => {
+    const { apiClient } = mockClient();
+
+    const { isError, body } = await callTool('import_statement', apiClient, { content: 'Date,Amount\n2025-03-01,-1.00' });
+
+    expect(isError).toBe(true);
+    expect(body.error.code).toBe('validation');
+  });
+});
+
+describe('import_mt940', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'statement-import-test-'));
+    configureCategoryAliases(path.join(directory, 'category-aliases.json'));
+  });
+
+  beforeEach(() => {
+    configureImportIndex(path.join(directory, `import-index-${Date.now()}.jsonl`));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('previews the transactions on a dry run without creating them', async () => {
+    const { apiClient, client } = mockClient();
+
+    const { body } = await callTool('import_mt940', apiClient, { content: fixture('ing.sta'), dryRun: true });
+
+    expect(client.createTransaction).not.toHaveBeenCalled();
+    expect(body.statement).toEqual({ format: 'mt940', account: 'NL12INGB0001234567' });
+    expect(body.preview.map((t: { name: string; amount: string }) => [t.name, t.amount])).toEqual([
+      ['Albert Heijn BV', '-45.2'],
+      ['Werkgever BV', '2500'],
+      ['BEA NR:XXX 05.03.25/10.15 Coffee Company Utrecht', '-4.5'],
+    ]);
+    expect(body.preview[0].notes).toBe([
+      'Boodschappen filiaal 1234',
+      'Counterparty account: NL44RABO0123456789',
+      'End-to-end ID: E2E-20250304-01',
+      `Imported from MT940 on ${TODAY}`,
+    ].join('\n'));
+  });
+
+  it('skips entries imported before', async () => {
+    const { apiClient, client } = mockClient();
+    await callTool('import_mt940', apiClient, { content: fixture('ing.sta') });
+
+    const { body } = await callTool('import_mt940', apiClient, { content: fixture('ing.sta') });
+
+    expect(client.createTransaction).toHaveBeenCalledTimes(3);
+    expect(body.imported).toBe(0);
+    expect(body.duplicates).toBe(3);
+    expect(body.results).toEqual([
+      { row: 1, status: 'duplicate', transactionId: 'created-1' },
+      { row: 2, status: 'duplicate', transactionId: 'created-2' },
+      { row: 3, status: 'duplicate', transactionId: 'created-3' },
+    ]);
+  });
+
+  it('imports entries again with skipDuplicates off', async () => {
+    const { apiClient, client } = mockClient();
+    await callTool('import_mt940', apiClient, { content: fixture('ing.sta') });
+
+    const { body } = await callTool('import_mt940', apiClient, { content: fixture('ing.sta'), skipDuplicates: false });
+
+    expect(client.createTransaction).toHaveBeenCalledTimes(6);
+    expect(body.imported).toBe(3);
+    expect(body.duplicates).toBe(0);
+  });
+
+  it('imports an entry from a later statement that reuses a bank reference', async () => {
+    const { apiClient, client } = mockClient();
+    const statement = (line: string, description: string) => [
+      ':20:STATEMENT',
+      ':25:NL12INGB0001234567EUR',
+      ':60F:C250303EUR1000,00',
+      line,
+      `:86:${description}`,
+      ':62F:C250304EUR990,00',
+      '-',
+    ].join('\n');
+    await callTool('import_mt940', apiClient, {
+      content: statement(':61:250304D10,00NTRFNONREF//BATCH001', '/NAME/Gemeente Utrecht/REMI/USTD//Parkeervergunning/'),
+    });
+
+    const { body } = await callTool('import_mt940', apiClient, {
+      content: statement(':61:250305D20,00NTRFNONREF//BATCH001', '/NAME/Waternet/REMI/USTD//Waterschapsbelasting/'),
+    });
+
+    expect(body.imported).toBe(1);
+    expect(client.createTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails on a file without statement lines', async () => {
+    const { apiClient } = mockClient();
+
+    const { isError, body } = await callTool('import_mt940', apiClient, { content: fixture('camt053.xml') });
+
+    expect(isError).toBe(true);
+    expect(body.error.code).toBe('validation');
+  });
+});
@@ -0,0 +1,346 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { detectStatementFormat, parseCamt, parseMt940, parseOfx, parseStatement } from '../src/services/statement-parsers.js';
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures', name), 'utf-8');
+}
+
+// OFX 1.x is SGML: leaf elements have no closing tag
+const OFX_SGML = fixture('ofx-sgml.ofx');
+const OFX_XML = fixture('ofx-xml.ofx');
+const CAMT_053 = fixture('camt053.xml');
+// The 2019 schemas nest party names under Pty and the status under Cd
+const CAMT_052 = fixture('camt052.xml');
+
+// A one-statement MT940 file around the given :61:/:86: lines
+function mt940(...lines: string[]): string {
+  return [':20:STATEMENT', ':25:NL12INGB0001234567', ':60F:C250303EUR1000,00', ...lines, ':62F:C250305EUR1000,00', '-'].join('\n');
+}
+
+describe('detectStatementFormat', () => {
+  it.each([
+    ['an OFX 1.x header', OFX_SGML, 'ofx'],
+    ['an OFX 2 processing instruction', OFX_XML, 'ofx'],
+    ['a camt.053 namespace', CAMT_053, 'camt'],
+    ['a camt.052 namespace', CAMT_052, 'camt'],
+    ['a BkToCstmrStmt element without a namespace', '<Document><BkToCstmrStmt></BkToCstmrStmt></Document>', 'camt'],
+  ])('recognizes %s', (_, content, format) => {
+    expect(detectStatementFormat(content)).toBe(format);
+  });
+
+  it.each([
+    ['statement.qfx', 'ofx'],
+    ['STATEMENT.OFX', 'ofx'],
+    ['camt053.xml', 'camt'],
+    ['export.csv', null],
+  ])('falls back to the extension of %s', (filename, format) => {
+    expect(detectStatementFormat('<unknown/>', filename)).toBe(format);
+  });
+
+  it('returns null for unknown content without a file name', () => {
+    expect(detectStatementFormat('<unknown/>')).toBeNull();
+  });
+
+  it('rejects content parseStatement cannot recognize', () => {
+    expect(() => parseStatement('Date,Amount\n2025-03-01,-1.00')).toThrow(
+      expect.objectContaining({ code: 'validation' })
+    );
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads SGML statements with unclosed elements', () => {
+    const statement = parseOfx(OFX_SGML);
+
+    expect(statement.format).toBe('ofx');
+    expect(statement.account).toBe('NL12INGB0001234567');
+    expect(statement.entries).toEqual([
+      {
+        index: 1,
+        bookingDate: '2025-03-03',
+        valueDate: '2025-03-01',
+        amount: -45.2,
+        currency: undefined,
+        counterpartyName: 'Albert Heijn 1234',
+        counterpartyIban: undefined,
+        reference: 'ING2025030300001',
+        uniqueReference: true,
+        description: 'Boodschappen & meer',
+        pending: false,
+      },
+      {
+        index: 2,
+        bookingDate: '2025-03-03',
+        valueDate: undefined,
+        amount: 2500,
+        currency: undefined,
+        counterpartyName: 'Werkgever BV',
+        counterpartyIban: 'NL91ABNA0417164300',
+        reference: 'ING2025030300002',
+        uniqueReference: true,
+        // A memo repeating the name adds nothing
+        description: undefined,
+        pending: false,
+      },
+    ]);
+  });
+
+  it('reads OFX 2 XML statements', () => {
+    const statement = parseOfx(OFX_XML);
+
+    expect(statement.account).toBe('4111111111111111');
+    expect(statement.entries.map(e => [e.bookingDate, e.amount, e.counterpartyName, e.reference, e.description])).toEqual([
+      ['2025-01-15', -12.34, 'Coffee & Co', '2025011501', 'Card purchase'],
+      ['2025-01-20', 100, 'Payment - thank you', '2025012001', undefined],
+    ]);
+  });
+
+  it('reads the last transaction when its closing tag is left out', () => {
+    const unclosed = OFX_SGML.replace(/<\/STMTTRN>\n<\/BANKTRANLIST>/, '</BANKTRANLIST>');
+
+    expect(parseOfx(unclosed).entries.map(e => e.reference)).toEqual(['ING2025030300001', 'ING2025030300002']);
+  });
+
+  it('reads an empty transaction list', () => {
+    const empty = OFX_SGML.replace(/<STMTTRN>[\s\S]*<\/STMTTRN>\n/, '');
+
+    expect(parseOfx(empty).entries).toEqual([]);
+  });
+
+  it('rejects a file without a transaction list', () => {
+    expect(() => parseOfx('OFXHEADER:100\n<OFX></OFX>')).toThrow('OFX file has no transaction list');
+  });
+
+  it('rejects a transaction without an amount', () => {
+    const broken = OFX_SGML.replace('<TRNAMT>2500.00\n', '');
+
+    expect(() => parseOfx(broken)).toThrow('OFX transaction 2 is missing DTPOSTED or TRNAMT');
+  });
+});
+
+describe('parseCamt', () => {
+  it('reads camt.053 entries, taking the counterparty from the other side of the payment', () => {
+    const statement = parseCamt(CAMT_053);
+
+    expect(statement.format).toBe('camt.053');
+    expect(statement.account).toBe('NL12INGB0001234567');
+    expect(statement.entries).toEqual([
+      {
+        index: 1,
+        bookingDate: '2025-03-03',
+        valueDate: '2025-03-01',
+        amount: -45.2,
+        currency: 'EUR',
+        // Money out: the creditor was paid
+        counterpartyName: 'Albert Heijn BV',
+        counterpartyIban: 'NL44RABO0123456789',
+        endToEndId: 'E2E-20250301-01',
+        reference: 'INGREF0001',
+        uniqueReference: true,
+        description: 'Boodschappen filiaal 1234',
+        pending: false,
+      },
+      {
+        index: 2,
+        bookingDate: '2025-03-03',
+        valueDate: '2025-03-03',
+        amount: 2500,
+        currency: 'EUR',
+        // Money in: the debtor paid
+        counterpartyName: 'Werkgever BV',
+        counterpartyIban: 'NL91ABNA0417164300',
+        endToEndId: undefined,
+        reference: 'INGREF0002',
+        uniqueReference: true,
+        description: 'Salaris maart',
+        pending: false,
+      },
+    ]);
+  });
+
+  it('reads camt.052 reports and marks pending entries', () => {
+    const statement = parseCamt(CAMT_052);
+
+    expect(statement.format).toBe('camt.052');
+    expect(statement.entries.map(e => [e.bookingDate, e.amount, e.counterpartyName, e.description, e.pending])).toEqual([
+      ['2025-03-04', -19.99, 'Bol.com', 'Bestelling 4567', false],
+      ['2025-03-04', -8.5, undefined, 'Kaartbetaling Coffee Company', true],
+    ]);
+  });
+
+  it('rejects XML that is not a statement or report', () => {
+    expect(() => parseCamt('<?xml version="1.0"?><Document><CstmrCdtTrfInitn/></Document>')).toThrow(
+      'XML file is not a CAMT.053 statement or CAMT.052 report'
+    );
+  });
+
+  it('rejects an entry without an amount', () => {
+    const broken = CAMT_053.replace('<Amt Ccy="EUR">2500.00</Amt>', '');
+
+    expect(() => parseCamt(broken)).toThrow('CAMT entry 2 is missing its date or amount');
+  });
+});
+
+describe('parseMt940', () => {
+  it('reads an ING statement with structured descriptions', () => {
+    const statement = parseMt940(fixture('ing.sta'));
+
+    expect(statement.format).toBe('mt940');
+    expect(statement.entries).toEqual([
+      {
+        index: 1,
+        bookingDate: '2025-03-04',
+        valueDate: '2025-03-04',
+        amount: -45.2,
+        currency: 'EUR',
+        counterpartyName: 'Albert Heijn BV',
+        counterpartyIban: 'NL44RABO0123456789',
+        endToEndId: 'E2E-20250304-01',
+        reference: 'B5C04TRF0001',
+        uniqueReference: false,
+        description: 'Boodschappen filiaal 1234',
+        pending: false,
+      },
+      {
+        index: 2,
+        bookingDate: '2025-03-05',
+        valueDate: '2025-03-05',
+        amount: 2500,
+        currency: 'EUR',
+        counterpartyName: 'Werkgever BV',
+        counterpartyIban: 'NL91ABNA0417164300',
+        endToEndId: undefined,
+        reference: 'SAL202503',
+        uniqueReference: false,
+        description: 'Salaris maart',
+        pending: false,
+      },
+      {
+        index: 3,
+        bookingDate: '2025-03-05',
+        valueDate: '2025-03-05',
+        amount: -4.5,
+        currency: 'EUR',
+        counterpartyName: undefined,
+        counterpartyIban: undefined,
+        endToEndId: undefined,
+        reference: undefined,
+        uniqueReference: false,
+        description: 'BEA NR:XXX 05.03.25/10.15 Coffee Company Utrecht',
+        pending: false,
+      },
+    ]);
+  });
+
+  it('reads the counterparty from a Rabobank /CNTP/ subfield', () => {
+    const statement = parseMt940(fixture('rabobank.sta'));
+
+    expect(statement.entries.map(e => [e.amount, e.counterpartyName, e.counterpartyIban, e.endToEndId, e.reference, e.description])).toEqual([
+      [-12.5, 'Jumbo Utrecht', 'NL44INGB0009876543', '250305-JUMBO-0042', 'EREF', 'Boodschappen'],
+      [40, 'J. Jansen', 'NL12INGB0001234567', undefined, undefined, 'Terugbetaling etentje'],
+    ]);
+  });
+
+  it.each([
+    ['ING', 'ing.sta', 'NL12INGB0001234567'],
+    ['Rabobank', 'rabobank.sta', 'NL98RABO0123456789'],
+  ])('strips the currency from the %s account', (_, file, account) => {
+    expect(parseMt940(fixture(file)).account).toBe(account);
+  });
+
+  it('reads an account with a bank code in front', () => {
+    const statement = parseMt940(mt940(':61:250304D1,00NMSCNONREF').replace(':25:NL12INGB0001234567', ':25:INGBNL2A/NL12INGB0001234567'));
+
+    expect(statement.account).toBe('NL12INGB0001234567');
+  });
+
+  describe(':61: statement lines', () => {
+    it.each([
+      ['a booking date', ':61:2503040305D10,00NMSCNONREF', '2025-03-04', '2025-03-05'],
+      ['no booking date', ':61:250304D10,00NMSCNONREF', '2025-03-04', '2025-03-04'],
+      ['a booking date in the next year', ':61:2312310102D10,00NMSCNONREF', '2023-12-31', '2024-01-02'],
+      ['a booking date in the previous year', ':61:2401011231D10,00NMSCNONREF', '2024-01-01', '2023-12-31'],
+    ])('reads a line with %s', (_, line, valueDate, bookingDate) => {
+      const [entry] = parseMt940(mt940(line)).entries;
+
+      expect(entry.valueDate).toBe(valueDate);
+      expect(entry.bookingDate).toBe(bookingDate);
+    });
+
+    it.each([
+      ['a debit', 'D', -10],
+      ['a credit', 'C', 10],
+      ['a reversed credit', 'RC', -10],
+      ['a reversed debit', 'RD', 10],
+    ])('signs %s', (_, mark, amount) => {
+      const [entry] = parseMt940(mt940(`:61:2503040304${mark}10,00NMSCNONREF`)).entries;
+
+      expect(entry.amount).toBe(amount);
+    });
+
+    it('reads a funds code and an amount without decimals', () => {
+      const [entry] = parseMt940(mt940(':61:2503040304CR1500,NTRFNONREF')).entries;
+
+      expect(entry.amount).toBe(1500);
+    });
+
+    it.each([
+      ['prefers the bank reference', ':61:250304D1,00NTRFCUSTREF1//BANKREF1', 'BANKREF1'],
+      ['falls back to the customer reference', ':61:250304D1,00NTRFCUSTREF1', 'CUSTREF1'],
+      ['has no reference for NONREF', ':61:250304D1,00NTRFNONREF', undefined],
+    ])('%s, which is never unique', (_, line, reference) => {
+      const [entry] = parseMt940(mt940(line)).entries;
+
+      expect(entry.reference).toBe(reference);
+      expect(entry.uniqueReference).toBe(false);
+    });
+
+    it('rejects a line it cannot read', () => {
+      expect(() => parseMt940(mt940(':61:20250304D1,00'))).toThrow('MT940 statement line 1 is not valid: 20250304D1,00');
+    });
+  });
+
+  describe(':86: descriptions', () => {
+    it('joins subfields wrapped mid-word across lines', () => {
+      const [entry] = parseMt940(mt940(
+        ':61:250304D1,00NTRFNONREF',
+        ':86:/EREF/NOTPROVIDED/NAME/Stichting Vo',
+        'edselbank Nederland/REMI/USTD//Gift voor de voedselbank in maa',
+        'rt 2025/',
+      )).entries;
+
+      expect(entry.counterpartyName).toBe('Stichting Voedselbank Nederland');
+      expect(entry.description).toBe('Gift voor de voedselbank in maart 2025');
+    });
+
+    it('reads the reference of structured remittance', () => {
+      const [entry] = parseMt940(mt940(':61:250304D1,00NTRFNONREF', ':86:/NAME/Belastingdienst/REMI/STRD/CUR/1234567890123456/')).entries;
+
+      expect(entry.description).toBe('1234567890123456');
+    });
+
+    it('reads free text', () => {
+      const [entry] = parseMt940(mt940(':61:250304D1,00NTRFNONREF', ':86:GEA   NR:12345   04.03.25/12.00', ' Geldautomaat Utrecht')).entries;
+
+      expect(entry.counterpartyName).toBeUndefined();
+      expect(entry.description).toBe('GEA NR:12345 04.03.25/12.00 Geldautomaat Utrecht');
+    });
+
+    it('leaves the description out of a line without one', () => {
+      const [entry] = parseMt940(mt940(':61:250304D1,00NTRFNONREF', ':61:250304D2,00NTRFNONREF', ':86:Second')).entries;
+
+      expect(entry.description).toBeUndefined();
+    });
+  });
+
+  it('reads every statement in a file with several', () => {
+    const content = `${fixture('ing.sta')}\n${fixture('ing.sta')}`;
+
+    expect(parseMt940(content).entries.map(e => e.index)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('rejects a file without statement lines', () => {
+    expect(() => parseMt940(':20:STATEMENT\n:25:NL12INGB0001234567\n-')).toThrow('MT940 file has no :61: statement lines');
+  });
+});